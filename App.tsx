@@ -1,5 +1,5 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Bot, RefreshCw, MessageSquare, LogIn, LogOut, MessageSquarePlus, ChevronLeft, ChevronRight, Calendar, Loader2 } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { Bot, RefreshCw, MessageSquare, LogIn, LogOut, MessageSquarePlus, ChevronLeft, ChevronRight, Calendar, Loader2, Headphones, Trash2, AudioLines, Languages, AlertTriangle, X, MonitorSmartphone, UserCircle, UserCog } from 'lucide-react';
 import NewsCard from './components/NewsCard';
 import ChatSidebar from './components/ChatSidebar';
 import AudioPlayer from './components/AudioPlayer';
@@ -7,9 +7,20 @@ import AuthModal from './components/AuthModal';
 import FeedbackModal from './components/FeedbackModal';
 import OnboardingModal from './components/OnboardingModal';
 import ShareModal from './components/ShareModal';
-import { fetchDailyBriefing, generateNewsAudio } from './services/geminiService';
+import VoiceSettingsModal from './components/VoiceSettingsModal';
+import SessionsModal from './components/SessionsModal';
+import AccountSettingsModal from './components/AccountSettingsModal';
+import { NewsAudioOptions, generateNewsAudio, generateSpeechAudio, getNewsAudioCacheKey, toDateKey, translateArticles } from './services/geminiService';
+import { DEFAULT_LANGUAGE, LANGUAGES } from './services/languages';
+import { isRateLimitError } from './services/geminiProxy';
+import { audioCache } from './services/audioCache';
+import { audioBufferToPcm16, articleMetadata, concatPcm, dayEpisodeMetadata, downloadBlob, encodeWav, episodeFilename } from './services/audioExport';
+import { newsProvider } from './services/newsProvider';
+import { dedupeArticles } from './services/storyDedupe';
 import { userService } from './services/userService';
-import { NewsArticle, UserInterests, Category, TTSMode, User, AgeRange } from './types';
+import { StorageError, onStorageError } from './services/storage';
+import { completeOidcSignIn, isOidcCallback } from './services/oidcSignIn';
+import { NewsArticle, UserInterests, Category, TTSMode, User, AgeRange, VoiceSettings, ArticleTranslation } from './types';
 
 const INITIAL_INTERESTS: UserInterests = {
   [Category.GLOBAL]: 1.0,
@@ -20,10 +31,27 @@ const INITIAL_INTERESTS: UserInterests = {
   [Category.BUSINESS]: 1.0
 };
 
+// Only the most recent titles go into the prompt; dedupeArticles catches the rest
+const MAX_EXCLUDE_TITLES = 16;
+
+// "Play all" reads each story as a straight brief
+const QUEUE_MODE = TTSMode.READ;
+
+const TTS_MODE_LABELS: Record<TTSMode, string> = {
+  [TTSMode.READ]: 'Brief',
+  [TTSMode.PODCAST]: 'Podcast Take',
+  [TTSMode.STORYTELLER]: 'Storyteller',
+  [TTSMode.EXPLAINER]: 'Explainer',
+  [TTSMode.DEBATE]: 'Debate',
+  [TTSMode.KIDS]: "Kids' Corner"
+};
+
 export default function App() {
   const [articles, setArticles] = useState<NewsArticle[]>([]);
   const [loading, setLoading] = useState(true);
   const [loadingMore, setLoadingMore] = useState(false);
+  const [reachedEnd, setReachedEnd] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState('');
   const [interests, setInterests] = useState<UserInterests>(INITIAL_INTERESTS);
   
   // Date State for History
@@ -36,12 +64,19 @@ export default function App() {
   // User & Auth State
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [showAuthModal, setShowAuthModal] = useState(false);
+  const [authError, setAuthError] = useState('');
   const [showOnboarding, setShowOnboarding] = useState(false);
   
   // Feedback State
   const [showFeedbackModal, setShowFeedbackModal] = useState(false);
   const [feedbackArticleId, setFeedbackArticleId] = useState<string | undefined>(undefined);
 
+  // Voice Settings State
+  const [showVoiceSettings, setShowVoiceSettings] = useState(false);
+  const [showSessions, setShowSessions] = useState(false);
+  const [showUserMenu, setShowUserMenu] = useState(false);
+  const [showAccountSettings, setShowAccountSettings] = useState(false);
+
   // Sharing State
   const [showShareModal, setShowShareModal] = useState(false);
   const [sharingArticle, setSharingArticle] = useState<NewsArticle | null>(null);
@@ -52,10 +87,39 @@ export default function App() {
   
   // Audio State
   const [audioContext, setAudioContext] = useState<AudioContext | null>(null);
-  const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
+  const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null); // The complete clip, once generated
+  const [audioChunks, setAudioChunks] = useState<AudioBuffer[]>([]); // What the player plays, filled as audio streams in
+  const [isAudioStreaming, setIsAudioStreaming] = useState(false);
   const [isAudioPlaying, setIsAudioPlaying] = useState(false);
   const [isAudioLoading, setIsAudioLoading] = useState(false);
   const [playingArticle, setPlayingArticle] = useState<NewsArticle | null>(null);
+  const [audioTitle, setAudioTitle] = useState<string | null>(null); // For audio that isn't an article, e.g. assistant replies
+  const [audioMode, setAudioMode] = useState<TTSMode | null>(null);
+  const [dayExportProgress, setDayExportProgress] = useState<{ done: number; total: number } | null>(null);
+  // The briefing JSON that goes with the last full-day episode, saved by a second click
+  const [dayBriefingExport, setDayBriefingExport] = useState<{ blob: Blob; filename: string } | null>(null);
+
+  // Playback Queue ("Play all")
+  const [playQueue, setPlayQueue] = useState<NewsArticle[]>([]);
+  const [queueIndex, setQueueIndex] = useState(0);
+  const [skipReadInQueue, setSkipReadInQueue] = useState(false);
+  const prefetchedAudioRef = useRef<Map<string, Promise<AudioBuffer | null>>>(new Map());
+  const playRequestRef = useRef(0); // Bumped on every new play so stale loads are ignored
+  const audioAbortRef = useRef<AbortController | null>(null); // Cancels the audio currently streaming in
+
+  // Language State: articles stay in English and translations are layered on top
+  const [language, setLanguage] = useState(DEFAULT_LANGUAGE);
+  const [translations, setTranslations] = useState<Record<string, ArticleTranslation>>({});
+  const [isTranslating, setIsTranslating] = useState(false);
+  const languageRef = useRef(language);
+  languageRef.current = language;
+
+  // Failed saves (e.g. storage full) are shown instead of crashing
+  const [storageError, setStorageError] = useState<StorageError | null>(null);
+
+  // Audio Cache (IndexedDB)
+  const [cachedAudioKeys, setCachedAudioKeys] = useState<Set<string>>(new Set());
+  const [audioCacheBytes, setAudioCacheBytes] = useState(0);
 
   // Infinite Scroll Refs
   const bottomSentinelRef = useRef<HTMLDivElement>(null);
@@ -73,6 +137,38 @@ export default function App() {
     }
   }, []);
 
+  // Finish signing in when the identity provider redirects back here
+  useEffect(() => {
+    if (!isOidcCallback()) return;
+    completeOidcSignIn()
+      .then(({ idToken, nonce, rememberMe }) => userService.loginWithIdToken(idToken, nonce, rememberMe))
+      .then(handleLoginSuccess)
+      .catch(e => {
+        console.error("Single sign-on failed", e);
+        setAuthError(e.message || "Sign-in failed");
+        setShowAuthModal(true);
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Sign out here once the session expires or is revoked from another device
+  useEffect(() => {
+    if (!currentUser) return;
+    const checkSession = () => {
+      if (userService.getCurrentUser()) return;
+      setCurrentUser(null);
+      setAuthError("Your session has ended. Please sign in again.");
+      setShowAuthModal(true);
+    };
+    const timer = setInterval(checkSession, 60 * 1000);
+    window.addEventListener('focus', checkSession);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('focus', checkSession);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentUser?.id]);
+
   // Initialize Data when User or Date changes
   useEffect(() => {
     // Only load if not in onboarding flow
@@ -84,7 +180,8 @@ export default function App() {
 
   // Infinite Scroll Observer Setup
   useEffect(() => {
-    if (loading || articles.length === 0) return;
+    // After a failure, wait for the user to hit retry rather than asking again straight away
+    if (loading || reachedEnd || loadMoreError || articles.length === 0) return;
 
     if (observerRef.current) observerRef.current.disconnect();
 
@@ -100,7 +197,14 @@ export default function App() {
 
     return () => observerRef.current?.disconnect();
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [loading, loadingMore, articles.length]);
+  }, [loading, loadingMore, reachedEnd, loadMoreError, articles.length]);
+
+  // Load what's in the audio cache so cards can show it
+  useEffect(() => {
+    refreshAudioCache();
+  }, []);
+
+  useEffect(() => onStorageError(setStorageError), []);
 
   // Update local interests state when user changes (auth)
   useEffect(() => {
@@ -111,13 +215,59 @@ export default function App() {
     }
   }, [currentUser]);
 
-  const initAudio = () => {
-    if (!audioContext) {
-      const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
-      setAudioContext(ctx);
+  // Follow the signed-in user's language
+  useEffect(() => {
+    setLanguage(currentUser?.preferredLanguage || DEFAULT_LANGUAGE);
+  }, [currentUser?.id, currentUser?.preferredLanguage]);
+
+  // Translate loaded stories, using cached translations where we have them
+  useEffect(() => {
+    if (language === DEFAULT_LANGUAGE) {
+      setTranslations({});
+      setIsTranslating(false);
+      return;
+    }
+    const cached = userService.getTranslations(language, articles.map(a => a.id));
+    setTranslations(cached);
+
+    const missing = articles.filter(a => !cached[a.id]);
+    if (missing.length === 0) {
+      setIsTranslating(false);
+      return;
+    }
+
+    setIsTranslating(true);
+    translateArticles(missing, language).then(result => {
+      userService.saveTranslations(language, result);
+      // Ignore results for a language the user has since switched away from
+      if (languageRef.current !== language) return;
+      setTranslations(prev => ({ ...prev, ...result }));
+      setIsTranslating(false);
+    });
+  }, [articles, language]);
+
+  const localizeArticle = (article: NewsArticle) =>
+    translations[article.id] ? { ...article, ...translations[article.id] } : article;
+
+  // Stories as shown: translated where a translation is available
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const displayArticles = useMemo(() => articles.map(localizeArticle), [articles, translations]);
+
+  const handleLanguageChange = (code: string) => {
+    setLanguage(code);
+    if (currentUser) {
+      const updated = userService.updatePreferredLanguage(currentUser.id, code);
+      if (updated) setCurrentUser(updated);
     }
   };
 
+  const initAudio = (): AudioContext => {
+    if (audioContext) return audioContext;
+    const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+    setAudioContext(ctx);
+    return ctx;
+  };
+
   const getFormattedDateKey = (date: Date) => {
     return date.toISOString().split('T')[0];
   };
@@ -139,6 +289,8 @@ export default function App() {
   const loadBriefing = async (forceRefresh = false) => {
     setLoading(true);
     setArticles([]);
+    setReachedEnd(false);
+    setLoadMoreError('');
 
     const dateKey = getFormattedDateKey(viewDate);
     const userId = currentUser ? currentUser.id : 'guest';
@@ -155,11 +307,17 @@ export default function App() {
         }
     }
 
-    // 2. Fetch new
-    const fetched = await fetchDailyBriefing(viewDate, userAge);
+    // 2. Fetch new (a failed request shows the same empty state, with its "Try Generating" button)
+    let fetched: NewsArticle[] = [];
+    try {
+        fetched = await newsProvider.fetchBriefing(viewDate, userAge);
+    } catch (e) {
+        console.error("Failed to load briefing for", dateKey, e);
+    }
     
     if (fetched.length > 0) {
-        const sorted = sortArticles(fetched);
+        // The model occasionally repeats a story within one page
+        const sorted = sortArticles(dedupeArticles([], fetched).added);
         userService.saveDailyBriefing(userId, dateKey, sorted);
         setArticles(sorted);
     } else {
@@ -172,23 +330,36 @@ export default function App() {
   const loadMoreArticles = async () => {
       if (loadingMore) return;
       setLoadingMore(true);
+      setLoadMoreError('');
       console.log("Fetching more articles...");
 
       const userAge = currentUser ? currentUser.ageRange : AgeRange.ADULT;
-      const currentTitles = articles.map(a => a.title);
+      const recentTitles = articles.slice(-MAX_EXCLUDE_TITLES).map(a => a.title);
 
-      const newArticles = await fetchDailyBriefing(viewDate, userAge, currentTitles);
-      
-      if (newArticles.length > 0) {
-          const sortedNew = sortArticles(newArticles);
-          setArticles(prev => {
-              const updated = [...prev, ...sortedNew];
-              // Optional: Update cache with extended list
-              const dateKey = getFormattedDateKey(viewDate);
-              const userId = currentUser ? currentUser.id : 'guest';
-              userService.saveDailyBriefing(userId, dateKey, updated);
-              return updated;
-          });
+      let newArticles: NewsArticle[];
+      try {
+          newArticles = await newsProvider.fetchMore(viewDate, userAge, recentTitles);
+      } catch (e: any) {
+          // A failed page says nothing about whether the day has more stories, so don't mark the end
+          console.error("Failed to load more articles", e);
+          setLoadMoreError(isRateLimitError(e) ? e.message : "Couldn't load more stories.");
+          setLoadingMore(false);
+          return;
+      }
+      const { merged, added } = dedupeArticles(articles, newArticles);
+
+      // Duplicates still contribute their sources to the stories we already have
+      const updated = [...merged, ...sortArticles(added)];
+      // Optional: Update cache with extended list
+      const dateKey = getFormattedDateKey(viewDate);
+      const userId = currentUser ? currentUser.id : 'guest';
+      userService.saveDailyBriefing(userId, dateKey, updated);
+      setArticles(updated);
+
+      if (added.length === 0) {
+          // Nothing new came back, so stop asking for more
+          console.log("No new stories left for", dateKey);
+          setReachedEnd(true);
       }
 
       setLoadingMore(false);
@@ -259,6 +430,12 @@ export default function App() {
     }
   }, [articles, audioContext, activeArticleId, currentUser]);
 
+  // Used by assistant answers that link to a story
+  const handleJumpToArticle = useCallback((id: string) => {
+    if (activeArticleId !== id) handleExpand(id);
+    document.getElementById(`article-${id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [activeArticleId, handleExpand]);
+
   const handleRate = useCallback((articleId: string, rating: 'up' | 'down') => {
       if (!currentUser) {
           setShowAuthModal(true);
@@ -297,30 +474,281 @@ export default function App() {
       setShowShareModal(true);
   }, []);
 
+  // Same key as the audio cache, so a clip prefetched with other voices or in another language is never played
+  const getAudioKey = (article: NewsArticle, mode: TTSMode) =>
+    getNewsAudioCacheKey(article.id, mode, currentUser?.voiceSettings, language);
+
+  const refreshAudioCache = async () => {
+    const clips = await audioCache.list();
+    setCachedAudioKeys(new Set(clips.map(c => c.key)));
+    setAudioCacheBytes(clips.reduce((sum, c) => sum + c.size, 0));
+  };
+
+  const handleClearAudioCache = async () => {
+    await audioCache.clear();
+    refreshAudioCache();
+  };
+
+  // Generates (or reads from cache) and then updates the cached indicators
+  const loadArticleAudio = async (article: NewsArticle, mode: TTSMode, ctx: AudioContext, options?: NewsAudioOptions) => {
+    const buffer = await generateNewsAudio(localizeArticle(article), mode, ctx, {
+        ...options,
+        voiceSettings: currentUser?.voiceSettings,
+        language
+    });
+    refreshAudioCache();
+    return buffer;
+  };
+
+  // Starts generating audio ahead of time; the result is picked up by playArticleAudio
+  const prefetchArticleAudio = (article: NewsArticle, mode: TTSMode, ctx: AudioContext) => {
+    const key = getAudioKey(article, mode);
+    if (!prefetchedAudioRef.current.has(key)) {
+      prefetchedAudioRef.current.set(key, loadArticleAudio(article, mode, ctx));
+    }
+  };
+
+  /**
+   * Loads audio for the current play request and starts playing as soon as the
+   * first chunk is ready. Prefetched audio is used whole; anything else is
+   * streamed. Resolves to whether any audio started playing.
+   */
+  const playArticleAudio = async (article: NewsArticle, mode: TTSMode, ctx: AudioContext, requestId: number) => {
+    const isCurrent = () => requestId === playRequestRef.current;
+    let started = false;
+    const onChunk = (chunk: AudioBuffer) => {
+        if (!isCurrent()) return;
+        setAudioChunks(prev => [...prev, chunk]);
+        if (!started) {
+            started = true;
+            setIsAudioLoading(false);
+            setIsAudioPlaying(true);
+        }
+    };
+
+    const key = getAudioKey(article, mode);
+    const prefetched = prefetchedAudioRef.current.get(key);
+    prefetchedAudioRef.current.delete(key);
+
+    let buffer: AudioBuffer | null;
+    if (prefetched) {
+        buffer = await prefetched;
+        if (buffer) onChunk(buffer);
+    } else {
+        const controller = new AbortController();
+        audioAbortRef.current = controller;
+        setIsAudioStreaming(true);
+        buffer = await loadArticleAudio(article, mode, ctx, { onChunk, signal: controller.signal });
+    }
+
+    if (isCurrent()) {
+        setAudioBuffer(buffer);
+        setIsAudioStreaming(false);
+        if (!started) setIsAudioLoading(false);
+    }
+    return started;
+  };
+
+  // Clears the player for a new request, cancelling audio still streaming in
+  const resetAudio = () => {
+    audioAbortRef.current?.abort();
+    audioAbortRef.current = null;
+    setIsAudioPlaying(false);
+    setAudioBuffer(null);
+    setAudioChunks([]);
+    setIsAudioStreaming(false);
+  };
+
   const handlePlayAudio = async (article: NewsArticle, mode: TTSMode) => {
-    initAudio();
-    if (playingArticle?.id === article.id && audioBuffer) {
+    const ctx = initAudio();
+    if (playingArticle?.id === article.id && audioChunks.length > 0) {
         setIsAudioPlaying(!isAudioPlaying);
         return;
     }
+    const requestId = ++playRequestRef.current;
+    setPlayQueue([]);
     setPlayingArticle(article);
+    setAudioMode(mode);
+    setAudioTitle(null);
     setIsAudioLoading(true);
-    setIsAudioPlaying(false);
-    setAudioBuffer(null);
+    resetAudio();
 
-    if (audioContext) {
-        if (audioContext.state === 'suspended') {
-            await audioContext.resume();
-        }
-        const buffer = await generateNewsAudio(article, mode, audioContext);
-        if (buffer) {
-            setAudioBuffer(buffer);
-            setIsAudioPlaying(true);
+    if (ctx.state === 'suspended') {
+        await ctx.resume();
+    }
+    await playArticleAudio(article, mode, ctx, requestId);
+  };
+
+  const isRead = (article: NewsArticle) => !!currentUser?.readHistory.includes(article.id);
+
+  /**
+   * Plays one item of the queue and prefetches the one after it.
+   * The queue is passed in explicitly so callers can start a freshly built one.
+   */
+  const playQueueItem = async (queue: NewsArticle[], index: number) => {
+    const article = queue[index];
+    if (!article) return;
+
+    const ctx = initAudio();
+    const requestId = ++playRequestRef.current;
+    setQueueIndex(index);
+    setPlayingArticle(article);
+    setAudioMode(QUEUE_MODE);
+    setAudioTitle(null);
+    setIsAudioLoading(true);
+    resetAudio();
+
+    if (ctx.state === 'suspended') {
+        await ctx.resume();
+    }
+    const next = queue[index + 1];
+    const started = await playArticleAudio(article, QUEUE_MODE, ctx, requestId);
+    if (requestId !== playRequestRef.current) return;
+
+    if (started) {
+        if (next) prefetchArticleAudio(next, QUEUE_MODE, ctx);
+    } else if (next) {
+        // Skip stories whose audio failed rather than stalling the queue
+        playQueueItem(queue, index + 1);
+    }
+  };
+
+  const handlePlayAll = () => {
+    const queue = skipReadInQueue ? displayArticles.filter(a => !isRead(a)) : displayArticles;
+    if (queue.length === 0) return;
+    setPlayQueue(queue);
+    playQueueItem(queue, 0);
+  };
+
+  const handleQueueNext = () => {
+    if (queueIndex + 1 < playQueue.length) playQueueItem(playQueue, queueIndex + 1);
+  };
+
+  const handleQueuePrevious = () => {
+    if (queueIndex > 0) playQueueItem(playQueue, queueIndex - 1);
+  };
+
+  const handleAudioEnded = () => {
+    if (playQueue.length > 0 && queueIndex + 1 < playQueue.length) {
+        playQueueItem(playQueue, queueIndex + 1);
+    } else {
+        setIsAudioPlaying(false);
+    }
+  };
+
+  // Rebuilds what's left of the queue from the feed order with the new setting
+  const handleToggleSkipRead = () => {
+    const skip = !skipReadInQueue;
+    setSkipReadInQueue(skip);
+    if (playQueue.length === 0) return;
+
+    const current = playQueue[queueIndex];
+    const remaining = displayArticles
+        .slice(displayArticles.findIndex(a => a.id === current.id) + 1)
+        .filter(a => !skip || !isRead(a));
+    setPlayQueue([...playQueue.slice(0, queueIndex + 1), ...remaining]);
+  };
+
+  const handleDownloadAudio = () => {
+    if (!audioBuffer) return;
+    const pcm = audioBufferToPcm16(audioBuffer);
+    if (playingArticle && audioMode) {
+        const meta = articleMetadata(playingArticle, viewDate, TTS_MODE_LABELS[audioMode]);
+        downloadBlob(encodeWav(pcm, meta, audioBuffer.sampleRate), episodeFilename(viewDate, meta.title));
+    } else {
+        const title = audioTitle || 'Audio';
+        downloadBlob(encodeWav(pcm, undefined, audioBuffer.sampleRate), episodeFilename(new Date(), title));
+    }
+  };
+
+  /**
+   * Builds one WAV episode from the day's cached briefing, in feed order. Uses
+   * cached audio where available and generates the rest one at a time. The
+   * briefing JSON for the podcast feed server is offered as a separate
+   * download, since browsers often block a second automatic one.
+   */
+  const handleDownloadDay = async () => {
+    if (dayExportProgress || articles.length === 0) return;
+    const ctx = initAudio();
+    const dateKey = getFormattedDateKey(viewDate);
+    const userId = currentUser ? currentUser.id : 'guest';
+    const storyArticles = userService.getDailyBriefing(userId, dateKey) || [...articles];
+    const clips: Int16Array[] = [];
+    const included: NewsArticle[] = [];
+
+    setDayBriefingExport(null);
+    setDayExportProgress({ done: 0, total: storyArticles.length });
+    try {
+        for (const article of storyArticles) {
+            const buffer = await loadArticleAudio(article, QUEUE_MODE, ctx);
+            if (buffer) {
+                clips.push(audioBufferToPcm16(buffer));
+                included.push(article);
+            }
+            setDayExportProgress(prev => prev && { ...prev, done: prev.done + 1 });
         }
+    } catch (e) {
+        console.error("Full-day export failed", e);
+        return;
+    } finally {
+        setDayExportProgress(null);
+    }
+
+    if (clips.length === 0) return;
+    const meta = dayEpisodeMetadata(included, viewDate);
+    downloadBlob(encodeWav(concatPcm(clips), meta), episodeFilename(viewDate, 'full-day'));
+    setDayBriefingExport({
+        blob: new Blob([JSON.stringify(included, null, 2)], { type: 'application/json' }),
+        // Named like the episode, so the podcast server pairs them
+        filename: `${toDateKey(viewDate)}.json`
+    });
+  };
+
+  const handleDownloadDayBriefing = () => {
+    if (!dayBriefingExport) return;
+    downloadBlob(dayBriefingExport.blob, dayBriefingExport.filename);
+    setDayBriefingExport(null);
+  };
+
+  const handleSpeakReply = async (text: string) => {
+    const ctx = initAudio();
+    const requestId = ++playRequestRef.current;
+    setPlayQueue([]);
+    setPlayingArticle(null);
+    setAudioMode(null);
+    setAudioTitle("News Assistant");
+    setIsAudioLoading(true);
+    resetAudio();
+
+    if (ctx.state === 'suspended') {
+        await ctx.resume();
+    }
+    const buffer = await generateSpeechAudio(text, ctx);
+    if (requestId !== playRequestRef.current) return;
+    if (buffer) {
+        setAudioBuffer(buffer);
+        setAudioChunks([buffer]);
+        setIsAudioPlaying(true);
     }
     setIsAudioLoading(false);
   };
 
+  const handleClearCachedBriefings = async () => {
+    userService.clearCachedBriefings();
+    // Cached audio is usually the bulk of the data, so free that too
+    await handleClearAudioCache();
+    setStorageError(null);
+  };
+
+  const handleSaveVoiceSettings = (settings: VoiceSettings) => {
+    if (!currentUser) return;
+    const updated = userService.updateVoiceSettings(currentUser.id, settings);
+    if (updated) setCurrentUser(updated);
+    // Anything prefetched was generated with the old voices
+    prefetchedAudioRef.current.clear();
+    setShowVoiceSettings(false);
+  };
+
   const handleLogout = () => {
     userService.logout();
     setCurrentUser(null);
@@ -375,6 +803,38 @@ export default function App() {
                 <MessageSquarePlus size={20} />
             </button>
 
+            {/* Language */}
+            <div className="relative flex items-center text-slate-400 hover:text-white" title="Language">
+                {isTranslating ? <Loader2 size={16} className="animate-spin absolute left-2 pointer-events-none" /> : <Languages size={16} className="absolute left-2 pointer-events-none" />}
+                <select
+                    value={language}
+                    onChange={(e) => handleLanguageChange(e.target.value)}
+                    className="appearance-none bg-transparent hover:bg-slate-800 rounded-full pl-7 pr-2 py-1.5 text-sm font-medium cursor-pointer focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                    {LANGUAGES.map(l => (
+                        <option key={l.code} value={l.code} className="bg-slate-800">{l.nativeName}</option>
+                    ))}
+                </select>
+            </div>
+
+            <button
+                onClick={handlePlayAll}
+                disabled={loading || articles.length === 0}
+                className="flex items-center gap-2 px-3 py-1.5 hover:bg-slate-800 rounded-full text-sm font-medium text-slate-400 hover:text-white transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                title="Play the whole briefing"
+            >
+                <Headphones size={20} />
+                <span className="hidden lg:inline">Play all</span>
+            </button>
+
+            <button
+                onClick={() => currentUser ? setShowVoiceSettings(true) : setShowAuthModal(true)}
+                className="p-2 hover:bg-slate-800 rounded-full text-slate-400 transition-colors hidden md:block"
+                title="Voice Settings"
+            >
+                <AudioLines size={20} />
+            </button>
+
             <button 
                 onClick={() => loadBriefing(true)} 
                 disabled={loading}
@@ -387,20 +847,47 @@ export default function App() {
             <div className="h-6 w-px bg-slate-700 mx-1 hidden sm:block"></div>
 
             {currentUser ? (
-               <div className="flex items-center gap-2">
-                   <div className="hidden md:flex flex-col items-end mr-1">
-                       <span className="text-xs font-bold text-white">{currentUser.username}</span>
-                       <span className="text-[10px] text-indigo-400">
-                           {currentUser.ageRange === AgeRange.CHILD ? 'Junior Acct' : 'Pro Member'}
-                       </span>
-                   </div>
+               <div className="relative">
                    <button 
-                     onClick={handleLogout}
-                     className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-red-400 transition-colors"
-                     title="Log Out"
+                     onClick={() => setShowUserMenu(!showUserMenu)}
+                     className="flex items-center gap-2 p-1 md:pl-3 hover:bg-slate-800 rounded-full text-slate-400 transition-colors"
+                     title="Account"
                    >
-                     <LogOut size={20} />
+                     <div className="hidden md:flex flex-col items-end">
+                         <span className="text-xs font-bold text-white">{currentUser.username}</span>
+                         <span className="text-[10px] text-indigo-400">
+                             {currentUser.ageRange === AgeRange.CHILD ? 'Junior Acct' : 'Pro Member'}
+                         </span>
+                     </div>
+                     <UserCircle size={28} />
                    </button>
+
+                   {showUserMenu && (
+                     <>
+                       <div className="fixed inset-0 z-40" onClick={() => setShowUserMenu(false)} />
+                       <div className="absolute right-0 mt-2 w-56 z-50 bg-slate-800 border border-slate-700 rounded-xl shadow-xl py-1 text-sm">
+                         <p className="md:hidden px-4 py-2 font-bold text-white border-b border-slate-700">{currentUser.username}</p>
+                         <button
+                           onClick={() => { setShowUserMenu(false); setShowAccountSettings(true); }}
+                           className="w-full flex items-center gap-3 px-4 py-2 text-slate-200 hover:bg-slate-700 transition-colors"
+                         >
+                           <UserCog size={16} /> Account Settings
+                         </button>
+                         <button
+                           onClick={() => { setShowUserMenu(false); setShowSessions(true); }}
+                           className="w-full flex items-center gap-3 px-4 py-2 text-slate-200 hover:bg-slate-700 transition-colors"
+                         >
+                           <MonitorSmartphone size={16} /> Signed-in Devices
+                         </button>
+                         <button
+                           onClick={() => { setShowUserMenu(false); handleLogout(); }}
+                           className="w-full flex items-center gap-3 px-4 py-2 text-slate-200 hover:bg-slate-700 hover:text-red-400 transition-colors"
+                         >
+                           <LogOut size={16} /> Log Out
+                         </button>
+                       </div>
+                     </>
+                   )}
                </div>
             ) : (
                 <button
@@ -423,6 +910,26 @@ export default function App() {
         </div>
       </header>
 
+      {/* Storage Error */}
+      {storageError && (
+        <div className="max-w-4xl mx-auto px-4 pt-4">
+          <div className="flex items-start gap-3 p-3 rounded-xl border border-amber-500/40 bg-amber-500/10 text-amber-200 text-sm">
+            <AlertTriangle size={18} className="shrink-0 mt-0.5" />
+            <div className="flex-1">
+              <p>{storageError.message} Your latest changes will last until you close this tab.</p>
+              {storageError.kind === 'quota' && (
+                <button onClick={handleClearCachedBriefings} className="mt-1 text-amber-100 underline hover:text-white">
+                  Clear cached briefings and audio
+                </button>
+              )}
+            </div>
+            <button onClick={() => setStorageError(null)} className="p-1 text-amber-300 hover:text-white" title="Dismiss">
+              <X size={16} />
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Main Content */}
       <main className="max-w-4xl mx-auto px-4 py-8 pb-32">
         {loading ? (
@@ -431,7 +938,7 @@ export default function App() {
                     <div key={i} className="h-48 bg-slate-800 rounded-xl animate-pulse border border-slate-700" />
                 ))}
                 <div className="text-center text-slate-500 mt-8">
-                    <p>Fetching history from Gemini...</p>
+                    <p>Fetching history...</p>
                 </div>
             </div>
         ) : (
@@ -443,7 +950,7 @@ export default function App() {
                  </div>
              ) : (
                 <>
-                    {articles.map((article) => (
+                    {displayArticles.map((article) => (
                         <NewsCard
                             key={article.id}
                             article={article}
@@ -454,6 +961,8 @@ export default function App() {
                             onRate={handleRate}
                             onFlag={handleFlag}
                             onShare={handleShare}
+                            cachedModes={Object.values(TTSMode).filter(m => cachedAudioKeys.has(getNewsAudioCacheKey(article.id, m, currentUser?.voiceSettings, language)))}
+                            showKidsMode={currentUser?.ageRange === AgeRange.CHILD}
                         />
                     ))}
                     
@@ -465,18 +974,44 @@ export default function App() {
                                 <span className="text-sm">Digging up more stories...</span>
                             </div>
                         )}
+                        {reachedEnd && !loadingMore && (
+                            <span className="text-sm text-slate-500">That's the end of the day's news.</span>
+                        )}
+                        {loadMoreError && !loadingMore && (
+                            <div className="flex items-center gap-3 text-sm text-red-300">
+                                <AlertTriangle size={16} className="shrink-0" />
+                                <span>{loadMoreError}</span>
+                                <button onClick={loadMoreArticles} className="text-indigo-400 hover:text-indigo-300 underline">Retry</button>
+                            </div>
+                        )}
                     </div>
                 </>
              )}
           </div>
         )}
+
+        {audioCacheBytes > 0 && (
+            <div className="mt-8 flex items-center justify-center gap-3 text-xs text-slate-500">
+                <span>Saved audio: {(audioCacheBytes / (1024 * 1024)).toFixed(1)} MB</span>
+                <button
+                    onClick={handleClearAudioCache}
+                    className="flex items-center gap-1 text-slate-400 hover:text-red-400 transition-colors"
+                >
+                    <Trash2 size={12} /> Clear audio cache
+                </button>
+            </div>
+        )}
       </main>
 
       {/* Modals */}
       <AuthModal 
         isOpen={showAuthModal} 
-        onClose={() => setShowAuthModal(false)}
+        onClose={() => {
+          setShowAuthModal(false);
+          setAuthError('');
+        }}
         onLogin={handleLoginSuccess}
+        initialError={authError}
       />
 
       <OnboardingModal
@@ -497,11 +1032,40 @@ export default function App() {
         article={sharingArticle}
       />
 
+      <AccountSettingsModal
+        isOpen={showAccountSettings}
+        onClose={() => setShowAccountSettings(false)}
+        user={currentUser}
+        onUserUpdated={setCurrentUser}
+        onAccountDeleted={() => setCurrentUser(null)}
+      />
+
+      <SessionsModal
+        isOpen={showSessions}
+        onClose={() => setShowSessions(false)}
+        onSignedOut={() => setCurrentUser(null)}
+      />
+
+      <VoiceSettingsModal
+        isOpen={showVoiceSettings}
+        onClose={() => setShowVoiceSettings(false)}
+        voiceSettings={currentUser?.voiceSettings}
+        modeLabels={TTS_MODE_LABELS}
+        onSave={handleSaveVoiceSettings}
+        getAudioContext={initAudio}
+      />
+
       {/* Chat Sidebar */}
       <ChatSidebar 
         isOpen={isChatOpen} 
         onClose={() => setIsChatOpen(false)} 
-        activeContext={activeArticleId ? articles.find(a => a.id === activeArticleId)?.title || "" : ""}
+        userId={currentUser ? currentUser.id : 'guest'}
+        dateKey={getFormattedDateKey(viewDate)}
+        activeArticle={displayArticles.find(a => a.id === activeArticleId) || null}
+        articles={displayArticles}
+        onOpenArticle={handleJumpToArticle}
+        onSpeakReply={handleSpeakReply}
+        language={language}
       />
 
       {/* Floating Chat Button (Mobile) */}
@@ -516,17 +1080,33 @@ export default function App() {
 
       {/* Sticky Audio Player */}
       <AudioPlayer 
-        title={playingArticle?.title || "Audio Player"}
+        title={playingArticle?.title || audioTitle || "Audio Player"}
         isPlaying={isAudioPlaying}
         isLoading={isAudioLoading}
         onTogglePlay={() => setIsAudioPlaying(!isAudioPlaying)}
         onClose={() => {
-            setIsAudioPlaying(false);
-            setAudioBuffer(null);
+            resetAudio();
             setPlayingArticle(null);
+            setAudioTitle(null);
+            setAudioMode(null);
+            setPlayQueue([]);
+            playRequestRef.current++;
         }}
-        buffer={audioBuffer}
+        onEnded={handleAudioEnded}
+        chunks={audioChunks}
+        isStreaming={isAudioStreaming}
         context={audioContext}
+        queue={playQueue}
+        queueIndex={queueIndex}
+        onNext={handleQueueNext}
+        onPrevious={handleQueuePrevious}
+        onSelectQueueItem={(index) => playQueueItem(playQueue, index)}
+        skipRead={skipReadInQueue}
+        onToggleSkipRead={handleToggleSkipRead}
+        onDownload={handleDownloadAudio}
+        onDownloadDay={handleDownloadDay}
+        dayExportProgress={dayExportProgress}
+        onDownloadDayBriefing={dayBriefingExport ? handleDownloadDayBriefing : undefined}
       />
 
     </div>
@@ -0,0 +1,290 @@
+import React, { useEffect, useState } from 'react';
+import { X, UserCog, Loader2, Check } from 'lucide-react';
+import { userService } from '../services/userService';
+import { hasPassword } from '../services/userRecords';
+import { AgeRange, User } from '../types';
+
+interface AccountSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  user: User | null;
+  onUserUpdated: (user: User) => void;
+  onAccountDeleted: () => void;
+}
+
+type SectionName = 'profile' | 'password' | 'ageRange' | 'interests' | 'delete';
+
+interface SectionStatus {
+  kind: 'success' | 'error';
+  text: string;
+}
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded-lg py-2.5 px-3 text-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500";
+const buttonClass = "px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-semibold rounded-lg flex items-center gap-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+const AccountSettingsModal: React.FC<AccountSettingsModalProps> = ({ isOpen, onClose, user, onUserUpdated, onAccountDeleted }) => {
+  const [profile, setProfile] = useState({ username: '', email: '' });
+  const [passwords, setPasswords] = useState({ current: '', next: '', confirm: '' });
+  const [ageRange, setAgeRange] = useState(AgeRange.ADULT);
+  const [deleteConfirmation, setDeleteConfirmation] = useState('');
+  const [busy, setBusy] = useState<SectionName | null>(null);
+  const [status, setStatus] = useState<Partial<Record<SectionName, SectionStatus>>>({});
+
+  // Start from the saved account each time the view opens
+  useEffect(() => {
+    if (!isOpen || !user) return;
+    setProfile({ username: user.username, email: user.email || '' });
+    setPasswords({ current: '', next: '', confirm: '' });
+    setAgeRange(user.ageRange);
+    setDeleteConfirmation('');
+    setStatus({});
+  }, [isOpen]);
+
+  if (!isOpen || !user) return null;
+
+  const needsPassword = hasPassword(user);
+
+  /** Runs one section's action, showing its error (or `success`) under that section. */
+  const run = async (section: SectionName, action: () => Promise<string | void>) => {
+    setBusy(section);
+    setStatus(prev => ({ ...prev, [section]: undefined }));
+    try {
+      const success = await action();
+      if (success) setStatus(prev => ({ ...prev, [section]: { kind: 'success', text: success } }));
+    } catch (e: any) {
+      console.error(`Account ${section} change failed`, e);
+      setStatus(prev => ({ ...prev, [section]: { kind: 'error', text: e.message || 'Something went wrong' } }));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSaveProfile = (e: React.FormEvent) => {
+    e.preventDefault();
+    run('profile', async () => {
+      onUserUpdated(await userService.updateProfile(user.id, profile));
+      return 'Profile saved.';
+    });
+  };
+
+  const handleChangePassword = (e: React.FormEvent) => {
+    e.preventDefault();
+    run('password', async () => {
+      if (passwords.next !== passwords.confirm) throw new Error("New passwords don't match");
+      await userService.changePassword(user.id, passwords.current, passwords.next);
+      setPasswords({ current: '', next: '', confirm: '' });
+      onUserUpdated({ ...user, hasPassword: true });
+      return 'Password changed. Your other sessions have been signed out.';
+    });
+  };
+
+  const handleRequestAgeRange = () => {
+    run('ageRange', async () => {
+      const updated = await userService.requestAgeRangeChange(user.id, ageRange);
+      onUserUpdated(updated);
+      return updated.ageRange === ageRange ? 'Age range updated.' : 'Request sent. It will apply once reviewed.';
+    });
+  };
+
+  const handleResetInterests = () => {
+    run('interests', async () => {
+      const updated = userService.resetInterests(user.id);
+      if (updated) onUserUpdated(updated);
+      return 'Interests reset. Your briefings will rebalance as you read.';
+    });
+  };
+
+  const handleDeleteAccount = (e: React.FormEvent) => {
+    e.preventDefault();
+    run('delete', async () => {
+      await userService.deleteAccount(user.id, needsPassword ? deleteConfirmation : '');
+      onAccountDeleted();
+      onClose();
+    });
+  };
+
+  const renderStatus = (section: SectionName) => {
+    const s = status[section];
+    if (!s) return null;
+    return s.kind === 'error' ? (
+      <div className="mt-3 text-red-400 text-sm bg-red-400/10 p-3 rounded-lg border border-red-400/20">{s.text}</div>
+    ) : (
+      <p className="mt-3 text-green-400 text-sm flex items-center gap-1.5"><Check size={14} /> {s.text}</p>
+    );
+  };
+
+  const spinner = (section: SectionName) => busy === section && <Loader2 className="animate-spin" size={16} />;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-lg shadow-2xl max-h-[90vh] flex flex-col">
+        <div className="p-5 border-b border-slate-700 flex justify-between items-center bg-slate-800/50 rounded-t-2xl">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <UserCog className="text-indigo-400" />
+            Account Settings
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-5 overflow-y-auto space-y-8">
+          {/* Profile */}
+          <form onSubmit={handleSaveProfile}>
+            <h3 className="text-xs text-slate-500 uppercase font-semibold tracking-wider mb-3">Profile</h3>
+            <div className="space-y-3">
+              <label className="block">
+                <span className="block text-sm font-medium text-slate-400 mb-1">Username</span>
+                <input
+                  type="text"
+                  value={profile.username}
+                  onChange={(e) => setProfile({ ...profile, username: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+              </label>
+              <label className="block">
+                <span className="block text-sm font-medium text-slate-400 mb-1">Email</span>
+                <input
+                  type="email"
+                  value={profile.email}
+                  onChange={(e) => setProfile({ ...profile, email: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+              </label>
+            </div>
+            <div className="mt-3 flex justify-end">
+              <button type="submit" disabled={busy !== null} className={buttonClass}>
+                {spinner('profile')} Save Profile
+              </button>
+            </div>
+            {renderStatus('profile')}
+          </form>
+
+          {/* Password */}
+          <form onSubmit={handleChangePassword}>
+            <h3 className="text-xs text-slate-500 uppercase font-semibold tracking-wider mb-3">Password</h3>
+            {!needsPassword && (
+              <p className="text-sm text-slate-400 mb-3">You sign in with an identity provider. Set a password to sign in with your email too.</p>
+            )}
+            <div className="space-y-3">
+              {needsPassword && (
+                <input
+                  type="password"
+                  value={passwords.current}
+                  onChange={(e) => setPasswords({ ...passwords, current: e.target.value })}
+                  className={inputClass}
+                  placeholder="Current password"
+                  autoComplete="current-password"
+                  required
+                />
+              )}
+              <input
+                type="password"
+                value={passwords.next}
+                onChange={(e) => setPasswords({ ...passwords, next: e.target.value })}
+                className={inputClass}
+                placeholder="New password"
+                autoComplete="new-password"
+                required
+              />
+              <input
+                type="password"
+                value={passwords.confirm}
+                onChange={(e) => setPasswords({ ...passwords, confirm: e.target.value })}
+                className={inputClass}
+                placeholder="Confirm new password"
+                autoComplete="new-password"
+                required
+              />
+            </div>
+            <div className="mt-3 flex justify-end">
+              <button type="submit" disabled={busy !== null} className={buttonClass}>
+                {spinner('password')} {needsPassword ? 'Change Password' : 'Set Password'}
+              </button>
+            </div>
+            {renderStatus('password')}
+          </form>
+
+          {/* Age range */}
+          <section>
+            <h3 className="text-xs text-slate-500 uppercase font-semibold tracking-wider mb-3">Age Range</h3>
+            <p className="text-sm text-slate-400 mb-3">
+              This decides which stories you see. Moving to a younger range applies straight away; an older one is reviewed first.
+            </p>
+            {user.ageRangeRequest && (
+              <p className="text-sm text-amber-300 bg-amber-500/10 border border-amber-500/30 rounded-lg p-3 mb-3">
+                You asked to change to {user.ageRangeRequest.ageRange} on {new Date(user.ageRangeRequest.requestedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}. It's awaiting review.
+              </p>
+            )}
+            <div className="flex gap-3">
+              <select
+                value={ageRange}
+                onChange={(e) => setAgeRange(e.target.value as AgeRange)}
+                className={`${inputClass} appearance-none`}
+              >
+                {Object.values(AgeRange).map((age) => (
+                  <option key={age} value={age}>{age}{age === user.ageRange ? ' (current)' : ''}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleRequestAgeRange}
+                disabled={busy !== null || (ageRange === user.ageRange && !user.ageRangeRequest)}
+                className={`${buttonClass} shrink-0`}
+              >
+                {spinner('ageRange')} {ageRange === user.ageRange && user.ageRangeRequest ? 'Withdraw Request' : 'Request Change'}
+              </button>
+            </div>
+            {renderStatus('ageRange')}
+          </section>
+
+          {/* Interests */}
+          <section>
+            <h3 className="text-xs text-slate-500 uppercase font-semibold tracking-wider mb-3">Interests</h3>
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-slate-400">Forget the topics you've picked and liked, and weigh every category equally again.</p>
+              <button
+                onClick={handleResetInterests}
+                disabled={busy !== null}
+                className="shrink-0 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+              >
+                Reset Interests
+              </button>
+            </div>
+            {renderStatus('interests')}
+          </section>
+
+          {/* Delete account */}
+          <form onSubmit={handleDeleteAccount} className="p-4 rounded-xl border border-red-400/30 bg-red-400/5">
+            <h3 className="text-xs text-red-400 uppercase font-semibold tracking-wider mb-2">Delete Account</h3>
+            <p className="text-sm text-slate-400 mb-3">
+              Permanently deletes your account, read history, feedback, saved briefings and chat history, and signs you out everywhere. This can't be undone.
+            </p>
+            <input
+              type={needsPassword ? 'password' : 'text'}
+              value={deleteConfirmation}
+              onChange={(e) => setDeleteConfirmation(e.target.value)}
+              className={inputClass}
+              placeholder={needsPassword ? 'Your password' : `Type ${user.username} to confirm`}
+              autoComplete={needsPassword ? 'current-password' : 'off'}
+              required
+            />
+            <div className="mt-3 flex justify-end">
+              <button
+                type="submit"
+                disabled={busy !== null || (!needsPassword && deleteConfirmation !== user.username)}
+                className="px-4 py-2 bg-red-600 hover:bg-red-500 text-white text-sm font-semibold rounded-lg flex items-center gap-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {spinner('delete')} Delete My Account
+              </button>
+            </div>
+            {renderStatus('delete')}
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AccountSettingsModal;
@@ -1,5 +1,11 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { Play, Pause, X, Radio, Loader2 } from 'lucide-react';
+import { Play, Pause, X, Radio, Loader2, SkipBack, SkipForward, ListMusic, Download, CalendarDays, RotateCcw, RotateCw, FileText } from 'lucide-react';
+import { NewsArticle } from '../types';
+
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 1.75, 2];
+const SKIP_SECONDS = 15;
+// While streaming, the timeline extends past the buffered audio so it visibly fills up
+const STREAMING_HEADROOM_SECONDS = 10;
 
 interface AudioPlayerProps {
   title: string;
@@ -7,8 +13,25 @@ interface AudioPlayerProps {
   isLoading: boolean;
   onTogglePlay: () => void;
   onClose: () => void;
-  buffer: AudioBuffer | null;
+  onEnded?: () => void; // Called when playback reaches the end naturally
+  // Decoded audio in playback order; streamed audio grows one chunk at a time
+  chunks: AudioBuffer[];
+  isStreaming?: boolean; // More chunks are still being generated
   context: AudioContext | null;
+  // Playback queue ("Play all"); empty when playing a single item
+  queue?: NewsArticle[];
+  queueIndex?: number;
+  onNext?: () => void;
+  onPrevious?: () => void;
+  onSelectQueueItem?: (index: number) => void;
+  skipRead?: boolean;
+  onToggleSkipRead?: () => void;
+  // Export
+  onDownload?: () => void;
+  onDownloadDay?: () => void;
+  dayExportProgress?: { done: number; total: number } | null;
+  // Set once a full-day episode has been saved; downloads its briefing JSON
+  onDownloadDayBriefing?: () => void;
 }
 
 const AudioPlayer: React.FC<AudioPlayerProps> = ({ 
@@ -17,142 +40,405 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({
   isLoading,
   onTogglePlay, 
   onClose,
-  buffer,
-  context 
+  onEnded,
+  chunks,
+  isStreaming = false,
+  context,
+  queue = [],
+  queueIndex = 0,
+  onNext,
+  onPrevious,
+  onSelectQueueItem,
+  skipRead = false,
+  onToggleSkipRead,
+  onDownload,
+  onDownloadDay,
+  dayExportProgress,
+  onDownloadDayBriefing
 }) => {
   const [currentTime, setCurrentTime] = useState(0);
-  const [duration, setDuration] = useState(0);
   const [isDragging, setIsDragging] = useState(false);
+  const [showUpNext, setShowUpNext] = useState(false);
+  const [playbackRate, setPlaybackRate] = useState(1);
+
+  const clip = chunks[0] || null; // Identifies the clip; later chunks only extend it
+  const duration = chunks.reduce((sum, c) => sum + c.duration, 0); // Buffered so far
   
-  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
-  const startTimeRef = useRef<number>(0); // When the current play session started (context time)
-  const pausedAtRef = useRef<number>(0);   // The offset in the audio buffer where we are
+  const sourcesRef = useRef<AudioBufferSourceNode[]>([]); // Scheduled chunks that haven't finished
+  const scheduledRef = useRef(0);    // Index of the next chunk to schedule
+  const nextStartRef = useRef(0);    // Context time at which the next chunk should start
+  const drainedRef = useRef(false);  // Played everything buffered while more is streaming
+  // Context time at which position 0 would have played at the current rate,
+  // so position = (context.currentTime - startTimeRef) * playbackRate
+  const startTimeRef = useRef<number>(0);
+  const pausedAtRef = useRef<number>(0);   // The offset in the audio where we are
   const animationRef = useRef<number>(0);
+  const rateRef = useRef(playbackRate);
+  const chunksRef = useRef(chunks);
+  chunksRef.current = chunks;
+  const isStreamingRef = useRef(isStreaming);
+  isStreamingRef.current = isStreaming;
+  // Kept in refs so a new callback identity doesn't restart playback
+  const onEndedRef = useRef(onEnded);
+  onEndedRef.current = onEnded;
+  const onTogglePlayRef = useRef(onTogglePlay);
+  onTogglePlayRef.current = onTogglePlay;
 
-  // Initialize duration
-  useEffect(() => {
-    if (buffer) {
-      setDuration(buffer.duration);
+  const handleNaturalEnd = () => {
+    pausedAtRef.current = 0;
+    setCurrentTime(0);
+    if (onEndedRef.current) {
+      onEndedRef.current();
     } else {
-      setDuration(0);
-      setCurrentTime(0);
-      pausedAtRef.current = 0;
+      onTogglePlayRef.current();
     }
-  }, [buffer]);
+  };
+
+  const chunkStart = (index: number) => chunksRef.current.slice(0, index).reduce((sum, c) => sum + c.duration, 0);
+  const getBufferedDuration = () => chunkStart(chunksRef.current.length);
+
+  // Current position in the audio, in seconds, never past what's buffered
+  const getPosition = () => {
+    if (!context) return pausedAtRef.current;
+    return Math.min((context.currentTime - startTimeRef.current) * rateRef.current, getBufferedDuration());
+  };
+
+  const stopSources = () => {
+    sourcesRef.current.forEach(source => {
+      source.onended = null;
+      try { source.stop(); } catch(e) { /* ignore */ }
+    });
+    sourcesRef.current = [];
+    drainedRef.current = false;
+  };
+
+  /**
+   * Schedules a chunk to start right after the previously scheduled one. If
+   * playback already ran dry waiting for it, it starts now and the timeline
+   * shifts to match.
+   */
+  const scheduleChunk = (index: number, offsetInChunk = 0) => {
+    if (!context) return;
+    const chunk = chunksRef.current[index];
+    const rate = rateRef.current;
+    const when = Math.max(nextStartRef.current, context.currentTime);
+
+    const source = context.createBufferSource();
+    source.buffer = chunk;
+    source.playbackRate.value = rate;
+    source.connect(context.destination);
+    source.start(when, offsetInChunk);
+
+    sourcesRef.current.push(source);
+    scheduledRef.current = index + 1;
+    startTimeRef.current = when - (chunkStart(index) + offsetInChunk) / rate;
+    nextStartRef.current = when + (chunk.duration - offsetInChunk) / rate;
+    drainedRef.current = false;
+
+    source.onended = () => {
+      // Manual stops clear onended, so this only runs when a chunk plays out
+      sourcesRef.current = sourcesRef.current.filter(s => s !== source);
+      if (sourcesRef.current.length > 0) return;
+      if (isStreamingRef.current) {
+        drainedRef.current = true; // Resumes when the next chunk arrives
+      } else {
+        handleNaturalEnd();
+      }
+    };
+  };
+
+  /**
+   * Starts playback at the given offset, replacing anything already scheduled.
+   */
+  const startPlayback = (offset: number) => {
+    const list = chunksRef.current;
+    if (!context || list.length === 0) return;
+    stopSources();
+
+    // Find the chunk the offset falls in
+    let index = 0;
+    let start = 0;
+    while (index < list.length - 1 && start + list[index].duration <= offset) {
+      start += list[index].duration;
+      index++;
+    }
+
+    nextStartRef.current = context.currentTime;
+    scheduleChunk(index, Math.min(Math.max(0, offset - start), list[index].duration));
+    for (let i = index + 1; i < list.length; i++) {
+      scheduleChunk(i);
+    }
+  };
+
+  // A new clip always starts from the beginning
+  useEffect(() => {
+    pausedAtRef.current = 0;
+    setCurrentTime(0);
+  }, [clip]);
 
   // Handle Playback Logic
   useEffect(() => {
-    if (!buffer || !context) return;
+    if (!clip || !context) return;
 
     if (isPlaying) {
-      // Create and start source
-      const source = context.createBufferSource();
-      source.buffer = buffer;
-      source.connect(context.destination);
-      sourceRef.current = source;
-
       // Start from the stored offset (pausedAt)
-      const offset = pausedAtRef.current;
-      source.start(0, offset);
-      
-      // The context time when we started this segment
-      startTimeRef.current = context.currentTime - offset;
-
-      source.onended = () => {
-         // Only stop if we reached the end naturally (not manually stopped/seeked)
-         if (context.currentTime - startTimeRef.current >= buffer.duration - 0.1) {
-             onTogglePlay(); 
-             pausedAtRef.current = 0;
-             setCurrentTime(0);
-         }
-      };
+      startPlayback(pausedAtRef.current);
 
       // Animation loop
       const updateProgress = () => {
         if (!isDragging) {
-          const elapsed = context.currentTime - startTimeRef.current;
-          setCurrentTime(Math.min(elapsed, buffer.duration));
-        }
-        if (isPlaying) {
-          animationRef.current = requestAnimationFrame(updateProgress);
+          setCurrentTime(getPosition());
         }
+        animationRef.current = requestAnimationFrame(updateProgress);
       };
       animationRef.current = requestAnimationFrame(updateProgress);
 
     } else {
       // Pause/Stop logic
-      if (sourceRef.current) {
-        try { sourceRef.current.stop(); } catch(e) { /* ignore */ }
-        sourceRef.current = null;
-      }
-      
-      // Save position if we weren't dragging (dragging handles its own time)
-      if (!isDragging) {
-          pausedAtRef.current = context.currentTime - startTimeRef.current;
-      }
-      
+      stopSources();
       cancelAnimationFrame(animationRef.current);
     }
 
     return () => {
-      if (sourceRef.current) {
-        try { sourceRef.current.stop(); } catch(e) { /* ignore */ }
+      if (sourcesRef.current.length > 0 || drainedRef.current) {
+        // Remember where we were so a re-run resumes rather than jumping back
+        if (!isDragging) {
+          const position = getPosition();
+          const atEnd = !isStreamingRef.current && position >= getBufferedDuration() - 0.1;
+          pausedAtRef.current = atEnd ? 0 : position;
+        }
+        stopSources();
       }
       cancelAnimationFrame(animationRef.current);
     };
-  }, [isPlaying, buffer, context, onTogglePlay, isDragging]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isPlaying, clip, context, isDragging]);
+
+  // Streamed chunks are queued behind what's already playing as they arrive
+  useEffect(() => {
+    if (!isPlaying || isDragging) return;
+    if (sourcesRef.current.length === 0 && !drainedRef.current) return;
+    for (let i = scheduledRef.current; i < chunks.length; i++) {
+      scheduleChunk(i);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [chunks.length]);
+
+  // If we ran dry and the stream turns out to be finished, that was the end
+  useEffect(() => {
+    if (!isStreaming && drainedRef.current) {
+      drainedRef.current = false;
+      handleNaturalEnd();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isStreaming]);
+
+  /**
+   * Jumps to a position within the buffered audio, restarting if we're playing.
+   */
+  const seekTo = (time: number) => {
+    if (!clip) return;
+    const clamped = Math.max(0, Math.min(time, getBufferedDuration() - 0.05));
+    pausedAtRef.current = clamped;
+    setCurrentTime(clamped);
+    if (isPlaying) {
+      startPlayback(clamped);
+    }
+  };
+
+  const skipBy = (seconds: number) => {
+    seekTo((isPlaying ? getPosition() : pausedAtRef.current) + seconds);
+  };
+
+  const changeRate = (rate: number) => {
+    // Reschedule from the current position so the timeline stays continuous
+    const position = getPosition();
+    rateRef.current = rate;
+    setPlaybackRate(rate);
+    if (isPlaying && clip) {
+      startPlayback(position);
+    }
+  };
+
+  const stepRate = (direction: 1 | -1) => {
+    const index = PLAYBACK_RATES.indexOf(rateRef.current);
+    const next = PLAYBACK_RATES[Math.max(0, Math.min(PLAYBACK_RATES.length - 1, index + direction))];
+    changeRate(next);
+  };
 
   const handleSeekStart = () => {
     setIsDragging(true);
   };
 
   const handleSeekChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const newTime = parseFloat(e.target.value);
+    // The timeline can extend past the buffered audio while streaming
+    const newTime = Math.min(parseFloat(e.target.value), duration);
     setCurrentTime(newTime);
   };
 
   const handleSeekEnd = (e: React.MouseEvent<HTMLInputElement> | React.TouchEvent<HTMLInputElement>) => {
-    if (!buffer || !context) return;
-    
-    // 1. Update the offset to the new slider position
+    if (!clip || !context) return;
+    // Ending the drag re-runs the playback effect, which restarts from here
     pausedAtRef.current = currentTime;
-    
-    // 2. If playing, we need to restart the audio node at the new position
-    if (isPlaying && sourceRef.current) {
-        try { sourceRef.current.stop(); } catch(e) {}
-        
-        const source = context.createBufferSource();
-        source.buffer = buffer;
-        source.connect(context.destination);
-        sourceRef.current = source;
-        
-        source.start(0, pausedAtRef.current);
-        startTimeRef.current = context.currentTime - pausedAtRef.current;
-        
-        // Re-attach onended
-        source.onended = () => {
-             if (context.currentTime - startTimeRef.current >= buffer.duration - 0.1) {
-                 onTogglePlay(); 
-                 pausedAtRef.current = 0;
-                 setCurrentTime(0);
-             }
-        };
-    }
-    
     setIsDragging(false);
   };
 
+  // Latest handlers for the listeners below, which are only registered once per clip
+  const controlsRef = useRef({ isPlaying, seekTo, skipBy, stepRate, onNext, onPrevious, onClose });
+  controlsRef.current = { isPlaying, seekTo, skipBy, stepRate, onNext, onPrevious, onClose };
+
+  // Keyboard shortcuts: Space/K play-pause, Left/J and Right/L skip 15s, < and > change speed
+  useEffect(() => {
+    if (!clip) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+
+      const controls = controlsRef.current;
+      switch (e.key) {
+        case ' ':
+        case 'k':
+          e.preventDefault();
+          onTogglePlayRef.current();
+          break;
+        case 'ArrowLeft':
+        case 'j':
+          e.preventDefault();
+          controls.skipBy(-SKIP_SECONDS);
+          break;
+        case 'ArrowRight':
+        case 'l':
+          e.preventDefault();
+          controls.skipBy(SKIP_SECONDS);
+          break;
+        case '<':
+          controls.stepRate(-1);
+          break;
+        case '>':
+          controls.stepRate(1);
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [clip]);
+
+  // Media Session: lock screen / hardware media keys and the OS "now playing" title
+  useEffect(() => {
+    if (!('mediaSession' in navigator) || !clip) return;
+    const session = navigator.mediaSession;
+
+    session.metadata = new MediaMetadata({ title, artist: 'Yesterday in Review', album: 'Daily Briefing' });
+
+    const handlers: [MediaSessionAction, MediaSessionActionHandler | null][] = [
+      ['play', () => { if (!controlsRef.current.isPlaying) onTogglePlayRef.current(); }],
+      ['pause', () => { if (controlsRef.current.isPlaying) onTogglePlayRef.current(); }],
+      ['stop', () => controlsRef.current.onClose()],
+      ['seekbackward', (d) => controlsRef.current.skipBy(-(d.seekOffset || SKIP_SECONDS))],
+      ['seekforward', (d) => controlsRef.current.skipBy(d.seekOffset || SKIP_SECONDS)],
+      ['seekto', (d) => { if (d.seekTime !== undefined) controlsRef.current.seekTo(d.seekTime); }],
+      ['previoustrack', onPrevious ? () => controlsRef.current.onPrevious?.() : null],
+      ['nexttrack', onNext ? () => controlsRef.current.onNext?.() : null]
+    ];
+    handlers.forEach(([action, handler]) => {
+      // Browsers throw for actions they don't support
+      try { session.setActionHandler(action, handler); } catch(e) { /* ignore */ }
+    });
+
+    return () => {
+      handlers.forEach(([action]) => {
+        try { session.setActionHandler(action, null); } catch(e) { /* ignore */ }
+      });
+      session.metadata = null;
+    };
+  }, [clip, title, !!onNext, !!onPrevious]);
+
+  // Keep the OS progress bar in sync
+  useEffect(() => {
+    if (!('mediaSession' in navigator) || !clip) return;
+    navigator.mediaSession.playbackState = isPlaying ? 'playing' : 'paused';
+    try {
+      navigator.mediaSession.setPositionState({
+        duration,
+        playbackRate,
+        position: Math.min(pausedAtRef.current, duration)
+      });
+    } catch(e) { /* ignore */ }
+  }, [isPlaying, playbackRate, clip, duration]);
+
   const formatTime = (time: number) => {
     const minutes = Math.floor(time / 60);
     const seconds = Math.floor(time % 60);
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   };
 
-  if (!buffer && !isLoading) return null;
+  if (!clip && !isLoading) return null;
+
+  const timelineLength = isStreaming ? duration + STREAMING_HEADROOM_SECONDS : duration;
+  const playedPercent = timelineLength ? (currentTime / timelineLength) * 100 : 0;
+  const bufferedPercent = timelineLength ? (duration / timelineLength) * 100 : 0;
+
+  const hasQueue = queue.length > 1;
+  const upNext = queue.slice(queueIndex + 1);
 
   return (
     <div className="fixed bottom-0 left-0 right-0 bg-slate-900 border-t border-slate-700 p-4 shadow-2xl z-40 transform transition-transform duration-300 translate-y-0">
+      {/* Up Next */}
+      {hasQueue && showUpNext && (
+        <div className="max-w-4xl mx-auto mb-4 bg-slate-800 border border-slate-700 rounded-xl p-3 max-h-60 overflow-y-auto scrollbar-thin">
+          <div className="flex justify-between items-center mb-2">
+            <span className="text-xs text-slate-500 uppercase font-semibold tracking-wider">Up Next</span>
+            {onToggleSkipRead && (
+              <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                <input type="checkbox" checked={skipRead} onChange={onToggleSkipRead} className="accent-indigo-500" />
+                Skip stories I've read
+              </label>
+            )}
+          </div>
+          {upNext.length === 0 ? (
+            <p className="text-sm text-slate-500">This is the last story.</p>
+          ) : (
+            <ol className="space-y-1">
+              {upNext.map((article, i) => (
+                <li key={article.id}>
+                  <button
+                    onClick={() => onSelectQueueItem?.(queueIndex + 1 + i)}
+                    className="w-full text-left flex items-center gap-3 px-2 py-1.5 rounded-lg hover:bg-slate-700 text-sm text-slate-300"
+                  >
+                    <span className="text-xs text-slate-500 font-mono w-4">{i + 1}</span>
+                    <span className="truncate">{article.title}</span>
+                  </button>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+
       <div className="max-w-4xl mx-auto flex items-center gap-4">
+        {hasQueue && (
+          <button
+            onClick={onPrevious}
+            disabled={queueIndex === 0}
+            className="p-2 text-slate-400 hover:text-white rounded-full hover:bg-slate-800 flex-shrink-0 disabled:opacity-30 disabled:cursor-not-allowed"
+            title="Previous story"
+          >
+            <SkipBack size={18} />
+          </button>
+        )}
+
+        <button
+          onClick={() => skipBy(-SKIP_SECONDS)}
+          disabled={!clip}
+          className="p-2 text-slate-400 hover:text-white rounded-full hover:bg-slate-800 flex-shrink-0 disabled:opacity-30 disabled:cursor-not-allowed"
+          title="Back 15 seconds (←)"
+        >
+          <RotateCcw size={18} />
+        </button>
+
         {/* Play/Pause Button */}
         <button 
           onClick={onTogglePlay}
@@ -168,6 +454,26 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({
           )}
         </button>
 
+        <button
+          onClick={() => skipBy(SKIP_SECONDS)}
+          disabled={!clip}
+          className="p-2 text-slate-400 hover:text-white rounded-full hover:bg-slate-800 flex-shrink-0 disabled:opacity-30 disabled:cursor-not-allowed"
+          title="Forward 15 seconds (→)"
+        >
+          <RotateCw size={18} />
+        </button>
+
+        {hasQueue && (
+          <button
+            onClick={onNext}
+            disabled={upNext.length === 0}
+            className="p-2 text-slate-400 hover:text-white rounded-full hover:bg-slate-800 flex-shrink-0 disabled:opacity-30 disabled:cursor-not-allowed"
+            title="Next story"
+          >
+            <SkipForward size={18} />
+          </button>
+        )}
+
         {/* Info & Seeker */}
         <div className="flex-1 min-w-0">
           <div className="flex justify-between items-center mb-2">
@@ -175,8 +481,9 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({
                <Radio size={14} className="text-red-500 animate-pulse" />
                {isLoading ? "Generating audio with Gemini..." : title}
             </h4>
-            <span className="text-xs text-slate-400 font-mono">
-               {formatTime(currentTime)} / {formatTime(duration)}
+            <span className="text-xs text-slate-400 font-mono whitespace-nowrap ml-2">
+               {hasQueue && <span className="text-slate-500 font-sans mr-2">{queueIndex + 1} of {queue.length}</span>}
+               {formatTime(currentTime)} / {formatTime(duration)}{isStreaming && <span title="Still generating">+</span>}
             </span>
           </div>
           
@@ -184,7 +491,7 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({
             <input
                 type="range"
                 min={0}
-                max={duration || 100}
+                max={timelineLength || 100}
                 step="0.1"
                 value={currentTime}
                 onMouseDown={handleSeekStart}
@@ -195,8 +502,10 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({
                 disabled={isLoading}
                 className="absolute w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer z-20 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
                 style={{
-                    backgroundSize: `${(currentTime / duration) * 100}% 100%`,
-                    backgroundImage: 'linear-gradient(#6366f1, #6366f1)' // Indigo-500
+                    // Played (indigo-500) over buffered (slate-500)
+                    backgroundSize: `${playedPercent}% 100%, ${bufferedPercent}% 100%`,
+                    backgroundImage: 'linear-gradient(#6366f1, #6366f1), linear-gradient(#64748b, #64748b)',
+                    backgroundRepeat: 'no-repeat'
                 }}
             />
             {/* Custom Thumb Styling hack via CSS is complex inline, relying on default browser thumb but styled slightly via tailwind forms plugin usually, or clean native look */}
@@ -221,6 +530,64 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({
           </div>
         </div>
 
+        {/* Cycles through the playback rates */}
+        <button
+          onClick={() => changeRate(PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(playbackRate) + 1) % PLAYBACK_RATES.length])}
+          className="px-2 py-1 text-xs font-mono text-slate-400 hover:text-white rounded-lg hover:bg-slate-800 border border-slate-700 flex-shrink-0 w-14"
+          title="Playback speed (< and >)"
+        >
+          {playbackRate}x
+        </button>
+
+        {onDownload && (
+          <button
+            onClick={onDownload}
+            disabled={!clip || isStreaming}
+            className="p-2 text-slate-500 hover:text-slate-300 rounded-full hover:bg-slate-800 flex-shrink-0 disabled:opacity-30 disabled:cursor-not-allowed"
+            title="Download as WAV"
+          >
+            <Download size={20} />
+          </button>
+        )}
+
+        {onDownloadDay && (
+          <button
+            onClick={onDownloadDay}
+            disabled={!!dayExportProgress}
+            className="p-2 text-slate-500 hover:text-slate-300 rounded-full hover:bg-slate-800 flex-shrink-0 disabled:cursor-wait flex items-center gap-1"
+            title="Download the full day as one episode"
+          >
+            {dayExportProgress ? (
+              <>
+                <Loader2 size={16} className="animate-spin" />
+                <span className="text-xs font-mono">{dayExportProgress.done}/{dayExportProgress.total}</span>
+              </>
+            ) : (
+              <CalendarDays size={20} />
+            )}
+          </button>
+        )}
+
+        {onDownloadDayBriefing && (
+          <button
+            onClick={onDownloadDayBriefing}
+            className="px-2 py-1 text-xs text-indigo-400 hover:text-indigo-300 rounded-lg hover:bg-slate-800 border border-indigo-500/40 flex-shrink-0 flex items-center gap-1"
+            title="Download the briefing JSON that goes with the episode (for the podcast feed)"
+          >
+            <FileText size={14} /> Download briefing JSON
+          </button>
+        )}
+
+        {hasQueue && (
+          <button
+            onClick={() => setShowUpNext(!showUpNext)}
+            className={`p-2 rounded-full hover:bg-slate-800 flex-shrink-0 ${showUpNext ? 'text-indigo-400' : 'text-slate-500 hover:text-slate-300'}`}
+            title="Up next"
+          >
+            <ListMusic size={20} />
+          </button>
+        )}
+
         {/* Close */}
         <button onClick={onClose} className="p-2 text-slate-500 hover:text-slate-300 rounded-full hover:bg-slate-800 flex-shrink-0">
           <X size={20} />
@@ -1,15 +1,21 @@
-import React, { useState } from 'react';
-import { X, User, ArrowRight, Loader2, Mail, Lock, ShieldCheck } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { X, User, ArrowRight, Loader2, Mail, Lock, ShieldCheck, KeyRound } from 'lucide-react';
 import { userService } from '../services/userService';
+import { getOidcConfig } from '../services/oidc';
+import { OIDC_PROVIDER_NAME, isOidcConfigured, startOidcSignIn } from '../services/oidcSignIn';
 import { AgeRange, User as UserType } from '../types';
 
 interface AuthModalProps {
   isOpen: boolean;
   onClose: () => void;
   onLogin: (user: UserType) => void;
+  /** An error from a sign-in that finished outside the modal, e.g. after the identity provider redirect. */
+  initialError?: string;
 }
 
-const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose, onLogin }) => {
+const isGoogleIssuer = () => getOidcConfig()?.issuer === 'https://accounts.google.com';
+
+const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose, onLogin, initialError }) => {
   const [isLogin, setIsLogin] = useState(true);
   const [formData, setFormData] = useState({
     username: '',
@@ -17,9 +23,14 @@ const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose, onLogin }) => {
     password: '',
     ageRange: AgeRange.ADULT
   });
+  const [rememberMe, setRememberMe] = useState(false);
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
 
+  useEffect(() => {
+    if (initialError) setError(initialError);
+  }, [initialError]);
+
   if (!isOpen) return null;
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -30,7 +41,7 @@ const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose, onLogin }) => {
     try {
       let user;
       if (isLogin) {
-        user = await userService.login(formData.email || formData.username, formData.password);
+        user = await userService.login(formData.email || formData.username, formData.password, rememberMe);
       } else {
         if (!formData.email || !formData.password) throw new Error("All fields are required");
         user = await userService.signup({
@@ -38,7 +49,7 @@ const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose, onLogin }) => {
             email: formData.email,
             password: formData.password,
             ageRange: formData.ageRange
-        });
+        }, rememberMe);
       }
       onLogin(user);
       onClose();
@@ -49,15 +60,15 @@ const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose, onLogin }) => {
     }
   };
 
-  const handleGoogleAuth = async () => {
+  const handleOidcSignIn = async () => {
+      setError('');
       setLoading(true);
       try {
-          const user = await userService.googleAuthSimulation();
-          onLogin(user);
-          onClose();
-      } catch (e) {
-          setError("Google Auth Failed");
-      } finally {
+          // Leaves the page; App finishes signing in when the provider sends the user back
+          await startOidcSignIn(rememberMe);
+      } catch (e: any) {
+          console.error("Could not start single sign-on", e);
+          setError(e.message || `Couldn't reach ${OIDC_PROVIDER_NAME}`);
           setLoading(false);
       }
   };
@@ -78,24 +89,31 @@ const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose, onLogin }) => {
 
         {/* Body */}
         <div className="p-6">
+          {isOidcConfigured() && (
+          <>
           <button 
-             onClick={handleGoogleAuth}
+             onClick={handleOidcSignIn}
              type="button"
-             className="w-full bg-white text-slate-900 font-semibold py-3 rounded-lg flex items-center justify-center gap-3 transition-colors hover:bg-slate-100 mb-6"
+             disabled={loading}
+             className="w-full bg-white text-slate-900 font-semibold py-3 rounded-lg flex items-center justify-center gap-3 transition-colors hover:bg-slate-100 disabled:opacity-50 mb-6"
           >
+             {isGoogleIssuer() ? (
              <svg className="w-5 h-5" viewBox="0 0 24 24">
                 <path d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z" fill="#4285F4"></path>
                 <path d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z" fill="#34A853"></path>
                 <path d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z" fill="#FBBC05"></path>
                 <path d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z" fill="#EA4335"></path>
              </svg>
-             Continue with Google
+             ) : <KeyRound size={20} />}
+             Continue with {OIDC_PROVIDER_NAME}
           </button>
 
           <div className="relative mb-6">
             <div className="absolute inset-0 flex items-center"><div className="w-full border-t border-slate-700"></div></div>
             <div className="relative flex justify-center text-sm"><span className="px-2 bg-slate-900 text-slate-400">Or continue with email</span></div>
           </div>
+          </>
+          )}
 
           <form onSubmit={handleSubmit} className="space-y-4">
             
@@ -169,6 +187,16 @@ const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose, onLogin }) => {
               </div>
             </div>
 
+            <label className="flex items-center gap-2 text-sm text-slate-400 cursor-pointer select-none">
+              <input
+                  type="checkbox"
+                  checked={rememberMe}
+                  onChange={(e) => setRememberMe(e.target.checked)}
+                  className="w-4 h-4 rounded border-slate-600 bg-slate-800 text-indigo-600 focus:ring-indigo-500"
+              />
+              Remember me on this device
+            </label>
+
             {error && (
               <div className="text-red-400 text-sm bg-red-400/10 p-3 rounded-lg border border-red-400/20">
                 {error}
@@ -1,25 +1,99 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Bot, X } from 'lucide-react';
-import { ChatMessage } from '../types';
-import { sendChatMessage } from '../services/geminiService';
+import { Send, Bot, X, Square, History, ArrowLeft, CornerDownRight, Mic, Loader2, Volume2, VolumeX } from 'lucide-react';
+import { ChatMessage, ChatThread, NewsArticle } from '../types';
+import { sendChatMessage, transcribeAudio, STORY_REF_PATTERN } from '../services/geminiService';
+import { blobToBase64 } from '../services/audioUtils';
+import { recordingToWav } from '../services/audioExport';
+import { userService } from '../services/userService';
 
 interface ChatSidebarProps {
   isOpen: boolean;
   onClose: () => void;
-  activeContext: string; // The article the user is focusing on
+  userId: string;
+  dateKey: string; // The day being viewed, YYYY-MM-DD
+  activeArticle: NewsArticle | null; // The article the user is focusing on
+  articles: NewsArticle[]; // The loaded briefing for dateKey
+  onOpenArticle: (articleId: string) => void;
+  onSpeakReply?: (text: string) => void; // Reads an answer aloud through the audio player
+  language?: string; // The assistant answers in this language
 }
 
-const ChatSidebar: React.FC<ChatSidebarProps> = ({ isOpen, onClose, activeContext }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    {
-      id: 'welcome',
-      role: 'model',
-      text: "I'm your news analyst. Ask me anything about the news."
-    }
-  ]);
+type ThreadInfo = Omit<ChatThread, 'messages' | 'updatedAt'>;
+
+const WELCOME_MESSAGE: ChatMessage = {
+  id: 'welcome',
+  role: 'model',
+  text: "I'm your news analyst. Ask me anything about the news."
+};
+
+const ChatSidebar: React.FC<ChatSidebarProps> = ({ isOpen, onClose, userId, dateKey, activeArticle, articles, onOpenArticle, onSpeakReply, language }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([WELCOME_MESSAGE]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [showThreads, setShowThreads] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [speakReplies, setSpeakReplies] = useState(true);
+  const [voiceError, setVoiceError] = useState('');
+  // Set when the user resumes a thread other than the one for the current article/day
+  const [resumedThreadId, setResumedThreadId] = useState<string | null>(null);
+  const [threadInfo, setThreadInfo] = useState<ThreadInfo | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const wantsRecordingRef = useRef(false); // False once the button is released
+  const dirtyRef = useRef(false);
+  const latestRef = useRef<{ info: ThreadInfo | null; messages: ChatMessage[] }>({ info: null, messages: [] });
+  latestRef.current = { info: threadInfo, messages };
+
+  const contextThreadId = userService.getChatThreadId(userId, dateKey, activeArticle?.id);
+  const threadId = resumedThreadId || contextThreadId;
+
+  // Moving to another article or day leaves any resumed thread
+  useEffect(() => {
+    setResumedThreadId(null);
+  }, [contextThreadId]);
+
+  // Load the thread whenever it changes, saving any in-flight exchange first
+  useEffect(() => {
+    const stored = userService.getChatThread(threadId);
+    setThreadInfo(stored ? {
+      id: stored.id,
+      userId: stored.userId,
+      dateKey: stored.dateKey,
+      articleId: stored.articleId,
+      articleTitle: stored.articleTitle
+    } : {
+      id: threadId,
+      userId,
+      dateKey,
+      articleId: activeArticle?.id,
+      articleTitle: activeArticle?.title
+    });
+    setMessages(stored ? stored.messages : [WELCOME_MESSAGE]);
+    dirtyRef.current = false;
+
+    return () => {
+      const { info, messages: current } = latestRef.current;
+      abortRef.current?.abort();
+      if (dirtyRef.current && info) {
+        userService.saveChatThread({
+          ...info,
+          messages: current
+            .filter(m => m.text)
+            .map(m => m.isStreaming ? { ...m, interrupted: 'stopped' as const } : m)
+        });
+      }
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [threadId]);
+
+  // Persist once an exchange has finished
+  useEffect(() => {
+    if (isLoading || !dirtyRef.current || !threadInfo) return;
+    userService.saveChatThread({ ...threadInfo, messages });
+    dirtyRef.current = false;
+  }, [messages, isLoading, threadInfo]);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -29,37 +103,188 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({ isOpen, onClose, activeContex
     scrollToBottom();
   }, [messages]);
 
-  const handleSend = async () => {
-    if (!input.trim() || isLoading) return;
+  /**
+   * Sends a question and streams the answer into a new model message.
+   * @param speak Read the answer aloud once it completes (used for voice questions).
+   */
+  const sendMessage = async (text: string, speak = false) => {
+    if (!text.trim() || isLoading) return;
 
     const userMsg: ChatMessage = {
       id: Date.now().toString(),
       role: 'user',
-      text: input
+      text
+    };
+
+    const modelMsgId = (Date.now() + 1).toString();
+    const placeholder: ChatMessage = {
+      id: modelMsgId,
+      role: 'model',
+      text: '',
+      isThinking: true
     };
 
-    setMessages(prev => [...prev, userMsg]);
+    setMessages(prev => [...prev, userMsg, placeholder]);
     setInput('');
     setIsLoading(true);
+    dirtyRef.current = true;
 
-    // Prepare history for API
-    const history = messages.map(m => ({
+    // Prepare history for API (skip answers that were stopped before any text arrived)
+    const history = messages
+      .filter(m => m.text)
+      .map(m => ({
         role: m.role,
         parts: [{ text: m.text }]
-    }));
+      }));
 
-    const responseText = await sendChatMessage(history, userMsg.text, activeContext);
-
-    const modelMsg: ChatMessage = {
-      id: (Date.now() + 1).toString(),
-      role: 'model',
-      text: responseText
+    const updateModelMsg = (patch: Partial<ChatMessage>) => {
+      setMessages(prev => prev.map(m => m.id === modelMsgId ? { ...m, ...patch } : m));
     };
 
-    setMessages(prev => [...prev, modelMsg]);
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const result = await sendChatMessage(history, userMsg.text, {
+      briefing: threadBriefing,
+      focusedArticle: threadBriefing.find(a => a.id === threadInfo?.articleId) || null,
+      language
+    }, {
+      signal: controller.signal,
+      onText: (text) => updateModelMsg({ text, isThinking: false, isStreaming: true })
+    });
+
+    updateModelMsg({
+      text: result.text,
+      isThinking: false,
+      isStreaming: false,
+      interrupted: result.status === 'complete' ? undefined : result.status,
+      sources: result.sources.length > 0 ? result.sources : undefined
+    });
+    abortRef.current = null;
     setIsLoading(false);
+
+    if (speak && result.status === 'complete') {
+      onSpeakReply?.(result.text.replace(STORY_REF_PATTERN, ''));
+    }
+  };
+
+  const handleSend = () => sendMessage(input);
+
+  // The recorder finishes asynchronously, so it sends through the latest render's state
+  const sendVoiceRef = useRef<(text: string) => void>(() => {});
+  sendVoiceRef.current = (text: string) => sendMessage(text, speakReplies);
+
+  // --- Push-to-talk ---
+
+  const startRecording = async () => {
+    if (isRecording || isLoading || isTranscribing) return;
+    setVoiceError('');
+    wantsRecordingRef.current = true;
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      // Released before the permission prompt or device resolved
+      if (!wantsRecordingRef.current) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      // Whatever the browser records in is converted to WAV before it is sent
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunks.push(e.data);
+      };
+      recorder.onstop = async () => {
+        stream.getTracks().forEach(track => track.stop());
+        if (chunks.length === 0) {
+          setVoiceError("Nothing was recorded. Hold the mic button while you speak.");
+          return;
+        }
+
+        setIsTranscribing(true);
+        let transcript: string | null = null;
+        try {
+          const wav = await recordingToWav(new Blob(chunks, { type: recorder.mimeType }));
+          transcript = await transcribeAudio(await blobToBase64(wav), wav.type);
+        } catch (e) {
+          console.error("Could not decode recording", e);
+        }
+        setIsTranscribing(false);
+
+        if (transcript) {
+          sendVoiceRef.current(transcript);
+        } else {
+          setVoiceError("Sorry, I didn't catch that.");
+        }
+      };
+
+      recorderRef.current = recorder;
+      recorder.start();
+      setIsRecording(true);
+    } catch (e) {
+      console.error("Microphone error", e);
+      setVoiceError("Microphone access is needed for voice questions.");
+    }
   };
 
+  const stopRecording = () => {
+    wantsRecordingRef.current = false;
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.stop();
+    }
+    recorderRef.current = null;
+    setIsRecording(false);
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleOpenThread = (id: string) => {
+    setResumedThreadId(id === contextThreadId ? null : id);
+    setShowThreads(false);
+  };
+
+  const activeContext = threadInfo?.articleTitle || '';
+
+  // A resumed thread from another day talks about that day's cached briefing
+  const threadBriefing = !threadInfo || threadInfo.dateKey === dateKey
+    ? articles
+    : userService.getDailyBriefing(threadInfo.userId, threadInfo.dateKey) || [];
+
+  /**
+   * Renders model text, turning [story:id] references into jump links.
+   */
+  const renderMessageText = (text: string) => {
+    const parts: React.ReactNode[] = [];
+    let lastIndex = 0;
+    for (const match of text.matchAll(STORY_REF_PATTERN)) {
+      parts.push(text.slice(lastIndex, match.index));
+      const articleId = match[1];
+      const article = threadBriefing.find(a => a.id === articleId);
+      const isLoaded = articles.some(a => a.id === articleId);
+      if (article) {
+        parts.push(
+          <button
+            key={`${articleId}-${match.index}`}
+            onClick={() => onOpenArticle(articleId)}
+            disabled={!isLoaded}
+            className="inline-flex items-center gap-1 mx-0.5 px-1.5 py-0.5 rounded bg-indigo-500/20 text-indigo-300 hover:bg-indigo-500/30 text-xs align-middle max-w-[12rem] disabled:opacity-60 disabled:cursor-default"
+            title={isLoaded ? `Open "${article.title}"` : article.title}
+          >
+            <CornerDownRight size={10} className="flex-shrink-0" />
+            <span className="truncate">{article.title}</span>
+          </button>
+        );
+      }
+      lastIndex = (match.index ?? 0) + match[0].length;
+    }
+    parts.push(text.slice(lastIndex));
+    return parts;
+  };
+  const threads = showThreads ? userService.getChatThreads(userId) : [];
+
   return (
     <div className={`fixed inset-y-0 right-0 w-full md:w-96 bg-slate-900 border-l border-slate-700 shadow-2xl transform transition-transform duration-300 z-50 flex flex-col ${isOpen ? 'translate-x-0' : 'translate-x-full'}`}>
       {/* Header */}
@@ -70,57 +295,154 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({ isOpen, onClose, activeContex
             </div>
             <h2 className="font-semibold text-slate-100">News Assistant</h2>
         </div>
-        <button onClick={onClose} className="p-1 hover:bg-slate-800 rounded text-slate-400">
-          <X size={20} />
-        </button>
+        <div className="flex items-center gap-1">
+          {onSpeakReply && (
+            <button
+              onClick={() => setSpeakReplies(!speakReplies)}
+              className={`p-1 hover:bg-slate-800 rounded ${speakReplies ? 'text-indigo-400' : 'text-slate-400'}`}
+              title={speakReplies ? 'Voice answers are read aloud' : 'Voice answers are text only'}
+            >
+              {speakReplies ? <Volume2 size={20} /> : <VolumeX size={20} />}
+            </button>
+          )}
+          <button
+            onClick={() => setShowThreads(!showThreads)}
+            className={`p-1 hover:bg-slate-800 rounded ${showThreads ? 'text-indigo-400' : 'text-slate-400'}`}
+            title="Past conversations"
+          >
+            <History size={20} />
+          </button>
+          <button onClick={onClose} className="p-1 hover:bg-slate-800 rounded text-slate-400">
+            <X size={20} />
+          </button>
+        </div>
       </div>
 
+      {/* Thread List */}
+      {showThreads && (
+        <div className="flex-1 overflow-y-auto p-4 space-y-2 scrollbar-thin">
+          <h3 className="text-xs text-slate-500 uppercase font-semibold tracking-wider mb-3">Past Conversations</h3>
+          {threads.length === 0 ? (
+            <p className="text-sm text-slate-500">No saved conversations yet.</p>
+          ) : threads.map(thread => (
+            <button
+              key={thread.id}
+              onClick={() => handleOpenThread(thread.id)}
+              className={`w-full text-left p-3 rounded-lg border transition-colors ${thread.id === threadId ? 'border-indigo-500 bg-indigo-500/10' : 'border-slate-700 bg-slate-800 hover:border-slate-500'}`}
+            >
+              <div className="flex justify-between items-center gap-2 mb-1">
+                <span className="text-sm font-medium text-slate-100 truncate">{thread.articleTitle || 'Daily briefing'}</span>
+                <span className="text-[10px] text-slate-500 whitespace-nowrap">{thread.dateKey}</span>
+              </div>
+              <p className="text-xs text-slate-400 truncate">{thread.messages[thread.messages.length - 1]?.text}</p>
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4 scrollbar-thin">
-        {messages.map((msg) => (
+      <div className={`flex-1 overflow-y-auto p-4 space-y-4 scrollbar-thin ${showThreads ? 'hidden' : ''}`}>
+        {messages.map((msg) => msg.isThinking ? (
+           <div key={msg.id} className="flex justify-start">
+             <div className="bg-slate-800 text-slate-400 rounded-2xl px-4 py-3 text-xs italic border border-slate-700 animate-pulse">
+                Analyzing...
+             </div>
+           </div>
+        ) : (
           <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
             <div className={`max-w-[85%] rounded-2xl px-4 py-3 text-sm leading-relaxed ${
               msg.role === 'user' 
                 ? 'bg-indigo-600 text-white rounded-br-none' 
                 : 'bg-slate-800 text-slate-200 rounded-bl-none border border-slate-700'
             }`}>
-              {msg.text}
+              {msg.role === 'model' ? renderMessageText(msg.text) : msg.text}
+              {msg.isStreaming && <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-indigo-400 animate-pulse" />}
+              {msg.sources && msg.sources.length > 0 && (
+                <div className="mt-3 pt-2 border-t border-slate-700 flex flex-wrap gap-1.5">
+                  {msg.sources.map((source, i) => (
+                    <a
+                      key={i}
+                      href={source.uri}
+                      target="_blank"
+                      rel="noreferrer"
+                      title={source.title}
+                      className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-slate-700 hover:bg-slate-600 text-[11px] text-slate-300 hover:text-white transition-colors max-w-[10rem]"
+                    >
+                      <span className="text-indigo-400 font-semibold">{i + 1}</span>
+                      <span className="truncate">{source.publisher || source.title}</span>
+                    </a>
+                  ))}
+                </div>
+              )}
+              {msg.interrupted && (
+                <div className="mt-2 text-[11px] italic text-slate-500">
+                  {msg.interrupted === 'stopped' ? 'Stopped' : 'Response interrupted by a connection error'}
+                </div>
+              )}
             </div>
           </div>
         ))}
-        {isLoading && (
-           <div className="flex justify-start">
-             <div className="bg-slate-800 text-slate-400 rounded-2xl px-4 py-3 text-xs italic border border-slate-700 animate-pulse">
-                Analyzing...
-             </div>
-           </div>
-        )}
         <div ref={messagesEndRef} />
       </div>
 
       {/* Input */}
       <div className="p-4 border-t border-slate-700 bg-slate-900">
+         {resumedThreadId && (
+             <button
+                 onClick={() => setResumedThreadId(null)}
+                 className="mb-2 flex items-center gap-1 text-xs text-slate-400 hover:text-slate-200 px-1"
+             >
+                 <ArrowLeft size={12} /> Back to current conversation
+             </button>
+         )}
          {activeContext && (
              <div className="mb-2 text-xs text-indigo-400 truncate px-1">
                  Active Context: {activeContext.substring(0, 40)}...
              </div>
          )}
-        <div className="relative">
-          <input
-            type="text"
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyDown={(e) => e.key === 'Enter' && handleSend()}
-            placeholder="Ask about the news..."
-            className="w-full bg-slate-800 border border-slate-700 rounded-full py-3 pl-4 pr-12 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-          />
-          <button 
-            onClick={handleSend}
-            disabled={isLoading || !input.trim()}
-            className="absolute right-2 top-1/2 -translate-y-1/2 p-1.5 bg-indigo-600 hover:bg-indigo-500 rounded-full text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+         {(isRecording || isTranscribing || voiceError) && (
+             <div className={`mb-2 text-xs px-1 ${voiceError && !isRecording ? 'text-red-400' : 'text-slate-400'}`}>
+                 {isRecording ? 'Listening... release to send' : isTranscribing ? 'Transcribing...' : voiceError}
+             </div>
+         )}
+        <div className="flex items-center gap-2">
+          <button
+            onPointerDown={startRecording}
+            onPointerUp={stopRecording}
+            onPointerLeave={stopRecording}
+            disabled={isLoading || isTranscribing}
+            className={`p-3 rounded-full flex-shrink-0 transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${isRecording ? 'bg-red-600 text-white animate-pulse' : 'bg-slate-800 text-slate-300 hover:bg-slate-700 border border-slate-700'}`}
+            title="Hold to ask with your voice"
           >
-            <Send size={16} />
+            {isTranscribing ? <Loader2 size={16} className="animate-spin" /> : <Mic size={16} />}
           </button>
+          <div className="relative flex-1">
+            <input
+              type="text"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSend()}
+              placeholder="Ask about the news..."
+              className="w-full bg-slate-800 border border-slate-700 rounded-full py-3 pl-4 pr-12 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            />
+            {isLoading ? (
+              <button 
+                onClick={handleStop}
+                className="absolute right-2 top-1/2 -translate-y-1/2 p-1.5 bg-slate-600 hover:bg-slate-500 rounded-full text-white transition-colors"
+                title="Stop generating"
+              >
+                <Square size={16} fill="currentColor" />
+              </button>
+            ) : (
+              <button 
+                onClick={handleSend}
+                disabled={!input.trim()}
+                className="absolute right-2 top-1/2 -translate-y-1/2 p-1.5 bg-indigo-600 hover:bg-indigo-500 rounded-full text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Send size={16} />
+              </button>
+            )}
+          </div>
         </div>
       </div>
     </div>
@@ -1,6 +1,6 @@
 import React from 'react';
 import { NewsArticle, Category, TTSMode } from '../types';
-import { Play, Mic, Sparkles, ThumbsUp, ThumbsDown, Flag, Share2 } from 'lucide-react';
+import { Play, Mic, Sparkles, Lightbulb, Scale, Smile, ThumbsUp, ThumbsDown, Flag, Share2, HardDriveDownload } from 'lucide-react';
 
 interface NewsCardProps {
   article: NewsArticle;
@@ -11,6 +11,8 @@ interface NewsCardProps {
   onRate?: (articleId: string, rating: 'up' | 'down') => void;
   onFlag?: (articleId: string) => void;
   onShare?: (article: NewsArticle) => void;
+  cachedModes?: TTSMode[]; // Modes whose audio is already saved on this device
+  showKidsMode?: boolean; // Kids' Corner is offered to child accounts
 }
 
 const CategoryColors: Record<Category, string> = {
@@ -30,10 +32,19 @@ const NewsCard: React.FC<NewsCardProps> = ({
   isPlaying,
   onRate,
   onFlag,
-  onShare
+  onShare,
+  cachedModes = [],
+  showKidsMode = false
 }) => {
+  const cachedBadge = (mode: TTSMode) => cachedModes.includes(mode) && (
+    <span title="Cached on this device, plays instantly" className="text-slate-400">
+      <HardDriveDownload size={12} />
+    </span>
+  );
+
   return (
     <div 
+      id={`article-${article.id}`}
       className={`relative group bg-slate-800 border border-slate-700 rounded-xl overflow-hidden transition-all duration-300 ${isExpanded ? 'ring-2 ring-indigo-500 shadow-lg shadow-indigo-500/20' : 'hover:border-slate-500'}`}
       onClick={() => onExpand(article.id)}
     >
@@ -62,23 +73,48 @@ const NewsCard: React.FC<NewsCardProps> = ({
                 onClick={(e) => { e.stopPropagation(); onPlay(article, TTSMode.READ); }}
                 className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm font-medium transition-colors text-slate-200"
             >
-                <Play size={16} className={isPlaying ? "text-green-400" : ""} /> Read Brief
+                <Play size={16} className={isPlaying ? "text-green-400" : ""} /> Read Brief {cachedBadge(TTSMode.READ)}
             </button>
             
             <button 
                 onClick={(e) => { e.stopPropagation(); onPlay(article, TTSMode.PODCAST); }}
                 className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm font-medium transition-colors text-slate-200"
             >
-                <Mic size={16} className="text-purple-400" /> Podcast Take
+                <Mic size={16} className="text-purple-400" /> Podcast Take {cachedBadge(TTSMode.PODCAST)}
             </button>
 
             <button 
                 onClick={(e) => { e.stopPropagation(); onPlay(article, TTSMode.STORYTELLER); }}
                 className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm font-medium transition-colors text-slate-200"
             >
-                <Sparkles size={16} className="text-amber-400" /> Storyteller
+                <Sparkles size={16} className="text-amber-400" /> Storyteller {cachedBadge(TTSMode.STORYTELLER)}
+            </button>
+
+            <button 
+                onClick={(e) => { e.stopPropagation(); onPlay(article, TTSMode.EXPLAINER); }}
+                className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm font-medium transition-colors text-slate-200"
+                title="Background and why it matters"
+            >
+                <Lightbulb size={16} className="text-sky-400" /> Explainer {cachedBadge(TTSMode.EXPLAINER)}
             </button>
 
+            <button 
+                onClick={(e) => { e.stopPropagation(); onPlay(article, TTSMode.DEBATE); }}
+                className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm font-medium transition-colors text-slate-200"
+                title="Both sides argued, with a moderator's wrap-up"
+            >
+                <Scale size={16} className="text-rose-400" /> Debate {cachedBadge(TTSMode.DEBATE)}
+            </button>
+
+            {showKidsMode && (
+              <button 
+                  onClick={(e) => { e.stopPropagation(); onPlay(article, TTSMode.KIDS); }}
+                  className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm font-medium transition-colors text-slate-200"
+              >
+                  <Smile size={16} className="text-green-400" /> Kids' Corner {cachedBadge(TTSMode.KIDS)}
+              </button>
+            )}
+
             <div className="flex-1"></div>
 
             <button
@@ -125,8 +161,9 @@ const NewsCard: React.FC<NewsCardProps> = ({
                     <span className="text-xs text-slate-500 uppercase font-semibold tracking-wider whitespace-nowrap">Sources:</span>
                     <div className="flex gap-3 overflow-x-auto pb-1 scrollbar-thin">
                         {article.sources.map((s, i) => (
-                            <a key={i} href={s.uri} target="_blank" rel="noreferrer" onClick={(e) => e.stopPropagation()} className="text-xs text-indigo-400 hover:text-indigo-300 underline whitespace-nowrap">
-                                {s.title}
+                            <a key={i} href={s.uri} target="_blank" rel="noreferrer" onClick={(e) => e.stopPropagation()} className="text-xs text-indigo-400 hover:text-indigo-300 whitespace-nowrap" title={s.title}>
+                                {s.publisher && <span className="font-semibold text-slate-300 mr-1">{s.publisher}</span>}
+                                {s.publisher !== s.title && <span className="underline">{s.title}</span>}
                             </a>
                         ))}
                     </div>
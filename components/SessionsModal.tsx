@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import { X, MonitorSmartphone, Loader2, LogOut } from 'lucide-react';
+import { userService } from '../services/userService';
+import { SessionInfo } from '../types';
+
+interface SessionsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called when the current session is revoked from this list. */
+  onSignedOut: () => void;
+}
+
+const formatLastSeen = (iso: string) => {
+  const minutes = Math.floor((Date.now() - Date.parse(iso)) / 60000);
+  if (minutes < 15) return 'Active now';
+  if (minutes < 60) return `${minutes} minutes ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+  return new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const SessionsModal: React.FC<SessionsModalProps> = ({ isOpen, onClose, onSignedOut }) => {
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const loadSessions = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      setSessions(await userService.getSessions());
+    } catch (e: any) {
+      console.error("Failed to load sessions", e);
+      setError(e.message || "Couldn't load your sessions");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) loadSessions();
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleRevoke = async (session: SessionInfo) => {
+    setBusyId(session.id);
+    setError('');
+    try {
+      await userService.revokeSession(session.id);
+      if (session.current) {
+        onSignedOut();
+        onClose();
+        return;
+      }
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+    } catch (e: any) {
+      console.error("Failed to revoke session", e);
+      setError(e.message || "Couldn't sign that session out");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setBusyId('others');
+    setError('');
+    try {
+      await userService.revokeOtherSessions();
+      setSessions(prev => prev.filter(s => s.current));
+    } catch (e: any) {
+      console.error("Failed to revoke sessions", e);
+      setError(e.message || "Couldn't sign the other sessions out");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const hasOthers = sessions.some(s => !s.current);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-md shadow-2xl max-h-[90vh] flex flex-col">
+        <div className="p-5 border-b border-slate-700 flex justify-between items-center bg-slate-800/50 rounded-t-2xl">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <MonitorSmartphone className="text-indigo-400" />
+            Where You're Signed In
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-5 overflow-y-auto">
+          {loading ? (
+            <div className="flex justify-center py-8 text-slate-400">
+              <Loader2 className="animate-spin" size={24} />
+            </div>
+          ) : (
+            <ul className="space-y-3">
+              {sessions.map(session => (
+                <li key={session.id} className="flex items-start gap-3 p-3 rounded-xl bg-slate-800 border border-slate-700">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-semibold text-white flex items-center gap-2">
+                      {session.device}
+                      {session.current && (
+                        <span className="text-[10px] font-bold uppercase tracking-wide text-green-400 bg-green-400/10 px-1.5 py-0.5 rounded">This device</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-slate-400 mt-0.5">
+                      {session.current ? 'Active now' : formatLastSeen(session.lastSeenAt)} · Signed in {formatDate(session.createdAt)}
+                    </p>
+                    <p className="text-xs text-slate-500 mt-0.5">
+                      {session.rememberMe ? 'Remembered' : 'Until the tab is closed'}, expires {formatDate(session.expiresAt)}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRevoke(session)}
+                    disabled={busyId !== null}
+                    className="shrink-0 p-2 rounded-full text-slate-400 hover:text-red-400 hover:bg-slate-700 transition-colors disabled:opacity-50"
+                    title={session.current ? 'Sign out here' : 'Sign out this session'}
+                  >
+                    {busyId === session.id ? <Loader2 className="animate-spin" size={16} /> : <LogOut size={16} />}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {error && (
+            <div className="mt-4 text-red-400 text-sm bg-red-400/10 p-3 rounded-lg border border-red-400/20">
+              {error}
+            </div>
+          )}
+
+          {hasOthers && (
+            <button
+              onClick={handleRevokeOthers}
+              disabled={busyId !== null}
+              className="mt-5 w-full py-2.5 rounded-lg border border-red-400/40 text-red-300 hover:bg-red-400/10 text-sm font-medium transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              {busyId === 'others' && <Loader2 className="animate-spin" size={16} />}
+              Sign out all other sessions
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionsModal;
@@ -0,0 +1,168 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, AudioLines, Play, Loader2, RotateCcw } from 'lucide-react';
+import { TTSMode, TTSSpeaker, VoiceSettings } from '../types';
+import { DEFAULT_TTS_SPEAKERS, PREBUILT_VOICES, generateSpeechAudio, getTTSSpeakers } from '../services/geminiService';
+
+interface VoiceSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  voiceSettings?: VoiceSettings;
+  modeLabels: Record<TTSMode, string>;
+  onSave: (settings: VoiceSettings) => void;
+  getAudioContext: () => AudioContext;
+}
+
+const buildDraft = (settings?: VoiceSettings) =>
+  Object.fromEntries(Object.values(TTSMode).map(mode => [mode, getTTSSpeakers(mode, settings)])) as Record<TTSMode, TTSSpeaker[]>;
+
+// Hosts introduce themselves; single-voice modes just read a line
+const sampleLine = (speaker: TTSSpeaker, isHost: boolean) => isHost
+  ? `Hi, I'm ${speaker.name}, and this is Yesterday in Review.`
+  : "Good morning. Here's what happened in the world yesterday.";
+
+const VoiceSettingsModal: React.FC<VoiceSettingsModalProps> = ({ isOpen, onClose, voiceSettings, modeLabels, onSave, getAudioContext }) => {
+  const [draft, setDraft] = useState(() => buildDraft(voiceSettings));
+  const [previewing, setPreviewing] = useState<string | null>(null);
+  const previewCacheRef = useRef<Map<string, AudioBuffer>>(new Map());
+  const previewSourceRef = useRef<AudioBufferSourceNode | null>(null);
+
+  const stopPreview = () => {
+    try { previewSourceRef.current?.stop(); } catch(e) { /* ignore */ }
+    previewSourceRef.current = null;
+  };
+
+  // Start from the saved settings each time the panel opens
+  useEffect(() => {
+    if (isOpen) setDraft(buildDraft(voiceSettings));
+    return stopPreview;
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const updateSpeaker = (mode: TTSMode, index: number, changes: Partial<TTSSpeaker>) => {
+    setDraft(prev => ({
+      ...prev,
+      [mode]: prev[mode].map((speaker, i) => i === index ? { ...speaker, ...changes } : speaker)
+    }));
+  };
+
+  const handlePreview = async (speaker: TTSSpeaker, isHost: boolean, key: string) => {
+    stopPreview();
+    const ctx = getAudioContext();
+    if (ctx.state === 'suspended') await ctx.resume();
+
+    const text = sampleLine(speaker, isHost);
+    const cacheKey = `${speaker.voice}|${text}`;
+    let buffer = previewCacheRef.current.get(cacheKey) || null;
+    if (!buffer) {
+      setPreviewing(key);
+      buffer = await generateSpeechAudio(text, ctx, speaker.voice);
+      setPreviewing(null);
+      if (!buffer) return;
+      previewCacheRef.current.set(cacheKey, buffer);
+    }
+
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+    source.start();
+    previewSourceRef.current = source;
+  };
+
+  const handleSave = () => {
+    stopPreview();
+    // Blank host names fall back to the defaults
+    const settings: VoiceSettings = {};
+    Object.values(TTSMode).forEach(mode => {
+      settings[mode] = draft[mode].map((speaker, i) => ({
+        name: speaker.name.trim() || DEFAULT_TTS_SPEAKERS[mode][i].name,
+        voice: speaker.voice
+      }));
+    });
+    onSave(settings);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-lg shadow-2xl max-h-[90vh] flex flex-col">
+        <div className="p-5 border-b border-slate-700 flex justify-between items-center bg-slate-800/50 rounded-t-2xl">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <AudioLines className="text-indigo-400" />
+            Voice Settings
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-5 overflow-y-auto space-y-6">
+          <p className="text-sm text-slate-400">
+            Pick who reads each kind of audio. Changes apply to audio generated from now on.
+          </p>
+
+          {Object.values(TTSMode).map(mode => {
+            const isMultiSpeaker = draft[mode].length > 1;
+            return (
+              <section key={mode}>
+                <h3 className="text-xs text-slate-500 uppercase font-semibold tracking-wider mb-2">{modeLabels[mode]}</h3>
+                <div className="space-y-2">
+                  {draft[mode].map((speaker, i) => {
+                    const key = `${mode}-${i}`;
+                    return (
+                      <div key={key} className="flex items-center gap-2">
+                        {isMultiSpeaker && (
+                          <input
+                            value={speaker.name}
+                            onChange={(e) => updateSpeaker(mode, i, { name: e.target.value })}
+                            placeholder={DEFAULT_TTS_SPEAKERS[mode][i].name}
+                            maxLength={20}
+                            className="w-28 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                            title="Host name used in the script"
+                          />
+                        )}
+                        <select
+                          value={speaker.voice}
+                          onChange={(e) => updateSpeaker(mode, i, { voice: e.target.value })}
+                          className="flex-1 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        >
+                          {PREBUILT_VOICES.map(v => (
+                            <option key={v.name} value={v.name}>{v.name} ({v.style})</option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => handlePreview(speaker, isMultiSpeaker, key)}
+                          disabled={previewing !== null}
+                          className="p-2 text-slate-400 hover:text-white rounded-full hover:bg-slate-800 transition-colors disabled:opacity-50"
+                          title="Preview voice"
+                        >
+                          {previewing === key ? <Loader2 size={16} className="animate-spin" /> : <Play size={16} />}
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              </section>
+            );
+          })}
+        </div>
+
+        <div className="p-5 border-t border-slate-700 flex justify-between items-center">
+          <button
+            onClick={() => setDraft(buildDraft())}
+            className="text-sm text-slate-400 hover:text-white flex items-center gap-1 transition-colors"
+          >
+            <RotateCcw size={14} /> Reset to defaults
+          </button>
+          <button
+            onClick={handleSave}
+            className="bg-indigo-600 hover:bg-indigo-500 text-white px-6 py-2 rounded-lg text-sm font-semibold transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VoiceSettingsModal;
@@ -1,6 +1,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { initStorage } from './services/storage';
+import { userService } from './services/userService';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -8,8 +10,20 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
\ No newline at end of file
+const render = () => {
+  root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  );
+};
+
+// Data is loaded into memory before the first render so reads stay synchronous
+initStorage()
+  .then(() => userService.init())
+  .catch(e => {
+    // e.g. crypto.subtle is missing off localhost, or the API server is down. Whatever
+    // was loaded is kept; a session that wasn't restored just means starting signed out
+    console.error("Startup failed, continuing signed out", e);
+  })
+  .then(render);
\ No newline at end of file
@@ -0,0 +1,410 @@
+/**
+ * REST API for accounts, read history, feedback and briefings, so they can
+ * live on a server instead of in one browser. Start the app with
+ * USER_BACKEND=http (and API_URL if this isn't on http://localhost:4100).
+ *
+ * Usage:
+ *   npm run api -- --port 4100 --data ./data/api.json
+ *
+ * Routes (JSON; send `Authorization: Bearer <token>` once signed in):
+ *   POST  /api/signup             { username, email, password, ageRange, rememberMe? } -> { user, token, session }
+ *   POST  /api/login              { identifier, password, rememberMe? } -> { user, token, session }
+ *   POST  /api/oidc/login         { idToken, nonce, rememberMe? } -> { user, token, session }
+ *   POST  /api/logout
+ *   POST  /api/sessions/refresh   -> { user, token, session }, with a new token
+ *   GET   /api/sessions           -> the user's sessions
+ *   DELETE /api/sessions          signs out every other session
+ *   DELETE /api/sessions/<id>
+ *   GET   /api/me                 -> user
+ *   PATCH /api/me                 { username?, email?, voiceSettings?, preferredLanguage? } -> user
+ *   DELETE /api/me                { password } deletes the account and everything stored for it
+ *   POST  /api/me/password        { currentPassword, newPassword }, signs out other sessions
+ *   POST  /api/me/age-range       { ageRange } -> user
+ *   POST  /api/me/onboarding      { categories } -> user
+ *   POST  /api/me/interests       { category, delta } -> user
+ *   POST  /api/me/interests/reset -> user
+ *   POST  /api/me/history         { articleId } -> user
+ *   POST  /api/feedback           { articleId?, type, value } -> feedback
+ *   GET   /api/briefings          -> { [date]: stories }
+ *   GET   /api/briefings/<date>   -> stories
+ *   PUT   /api/briefings/<date>   stories
+ *   POST  /api/gemini/...         see server/geminiRoutes.ts
+ *
+ * Admin routes (send `Authorization: Bearer <API_ADMIN_TOKEN>`; off unless it is set):
+ *   POST  /api/admin/users/<id>/age-range/approve -> user, with the pending age range applied
+ *
+ * Tokens expire unless refreshed; see services/sessionRecords.ts.
+ *
+ * The Gemini routes need GEMINI_API_KEY in the environment, and identity
+ * provider sign-in needs the same OIDC_ISSUER and OIDC_CLIENT_ID as the app.
+ */
+import http from 'node:http';
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { AgeRange, Feedback, Session, SignupData, User } from '../types';
+import { hashPassword, verifyPassword } from '../services/passwordHash';
+import { OidcIdentity, getOidcConfig, verifyIdToken } from '../services/oidc';
+import { addReadArticle, applyAgeRangeRequest, applyInterestDelta, applyOnboarding, applyProfileChanges, approveAgeRangeRequest, assertAvailable, createOidcUserRecord, createUserRecord, findByIdentifier, linkOidcIdentity, resetInterests, withoutPassword } from '../services/userRecords';
+import { createSessionRecord, findSessionByToken, isSessionExpired, listUserSessions, rotateSessionToken, toSessionInfo } from '../services/sessionRecords';
+import { GEMINI_PROXY_URL } from '../services/geminiProxy';
+import { openFileStore } from './fileStore';
+import { createGeminiRoutes } from './geminiRoutes';
+import { apiError, readJson, requireString, requireVoiceSettings, sendJson } from './httpUtils';
+
+const DATE_KEY = /^\/api\/briefings\/(\d{4}-\d{2}-\d{2})$/;
+const SESSION_PATH = /^\/api\/sessions\/([^/]+)$/;
+const APPROVE_AGE_RANGE_PATH = /^\/api\/admin\/users\/([^/]+)\/age-range\/approve$/;
+const FEEDBACK_TYPES: Feedback['type'][] = ['rating', 'flag', 'general'];
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: 'string', default: process.env.API_PORT || '4100' },
+    data: { type: 'string', default: process.env.API_DATA_FILE || './data/api.json' },
+    // The app's origin, for CORS
+    origin: { type: 'string', default: process.env.API_ALLOWED_ORIGIN || '*' }
+  }
+});
+
+const port = Number(args.port);
+const dataFile = path.resolve(args.data!);
+// Shared secret for the admin routes, which are disabled without it
+const adminToken = process.env.API_ADMIN_TOKEN;
+
+const main = async () => {
+  if (GEMINI_PROXY_URL) {
+    // geminiService would send the server's own requests back to the proxy
+    throw new Error("GEMINI_PROXY_URL is for the app; unset it when running the API server");
+  }
+
+  const store = await openFileStore(dataFile);
+  const { data } = store;
+  const handleGemini = createGeminiRoutes();
+
+  // Drops expired sessions, and any from before sessions expired (keyed by token, with no hash)
+  const pruneSessions = () => {
+    Object.entries(data.sessions).forEach(([id, session]) => {
+      if (!session.tokenHash || isSessionExpired(session)) delete data.sessions[id];
+    });
+  };
+  pruneSessions();
+
+  // Nonces only need remembering while their ID token could still be accepted
+  const pruneUsedNonces = () => {
+    const now = Date.now();
+    Object.entries(data.usedOidcNonces).forEach(([nonce, expiresAt]) => {
+      if (expiresAt < now) delete data.usedOidcNonces[nonce];
+    });
+  };
+
+  const authResponse = (user: User, session: Session, token: string) => ({
+    user: withoutPassword(user),
+    token,
+    session: toSessionInfo(session, session.id)
+  });
+
+  const startSession = async (user: User, rememberMe: unknown, req: http.IncomingMessage) => {
+    pruneSessions();
+    const { session, token } = await createSessionRecord(user.id, rememberMe === true, req.headers['user-agent']);
+    data.sessions[session.id] = session;
+    await store.save();
+    return authResponse(user, session, token);
+  };
+
+  const getToken = (req: http.IncomingMessage) => req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+
+  const getSession = async (req: http.IncomingMessage) => {
+    const token = getToken(req);
+    const session = token ? await findSessionByToken(Object.values(data.sessions), token) : undefined;
+    const user = session && data.users[session.userId];
+    return session && user ? { session, user } : undefined;
+  };
+
+  const requireSession = async (req: http.IncomingMessage) => {
+    const found = await getSession(req);
+    if (!found) throw apiError(401, "Not signed in, or the session has expired");
+    return found;
+  };
+
+  const requireUser = async (req: http.IncomingMessage): Promise<User> => (await requireSession(req)).user;
+
+  const requireAdmin = (req: http.IncomingMessage) => {
+    if (!adminToken) throw apiError(404, "Not found");
+    const token = Buffer.from(getToken(req) || '');
+    const expected = Buffer.from(adminToken);
+    if (token.length !== expected.length || !timingSafeEqual(token, expected)) throw apiError(403, "Admin token required");
+  };
+
+  const createUser = async (signup: SignupData) => {
+    try {
+      assertAvailable(Object.values(data.users), signup.username, signup.email);
+    } catch (e: any) {
+      throw apiError(409, e.message);
+    }
+    const user = createUserRecord(signup, signup.password ? await hashPassword(signup.password) : undefined);
+    data.users[user.id] = user;
+    return user;
+  };
+
+  // 403 rather than 401, which would tell the app its session has ended
+  const assertPassword = async (user: User, password: unknown, message: string) => {
+    if (user.password && !(await verifyPassword(typeof password === 'string' ? password : '', user.password)).valid) {
+      throw apiError(403, message);
+    }
+  };
+
+  // Saves a change to the signed-in user and returns them
+  const saveUser = async (user: User) => {
+    await store.save();
+    return withoutPassword(user);
+  };
+
+  const handle = async (req: http.IncomingMessage, res: http.ServerResponse, url: URL) => {
+    const route = `${req.method} ${url.pathname}`;
+
+    if (route === 'POST /api/signup') {
+      const body = await readJson(req);
+      const ageRange = body.ageRange as AgeRange;
+      if (!Object.values(AgeRange).includes(ageRange)) throw apiError(400, "ageRange is invalid");
+      const user = await createUser({
+        username: requireString(body.username, 'username'),
+        email: requireString(body.email, 'email'),
+        password: requireString(body.password, 'password'),
+        ageRange
+      });
+      sendJson(res, 201, await startSession(user, body.rememberMe, req));
+
+    } else if (route === 'POST /api/login') {
+      const body = await readJson(req);
+      const password = typeof body.password === 'string' ? body.password : '';
+      const user = findByIdentifier(Object.values(data.users), requireString(body.identifier, 'identifier'));
+      if (!user) throw apiError(401, "Invalid credentials");
+      const { valid, needsRehash } = await verifyPassword(password, user.password);
+      if (!valid) throw apiError(401, "Invalid credentials");
+      if (needsRehash) user.password = await hashPassword(password);
+      sendJson(res, 200, await startSession(user, body.rememberMe, req));
+
+    } else if (route === 'POST /api/oidc/login') {
+      const config = getOidcConfig();
+      if (!config) throw apiError(501, "Single sign-on is not configured");
+      const body = await readJson(req);
+      const nonce = requireString(body.nonce, 'nonce');
+      let identity: OidcIdentity;
+      try {
+        identity = await verifyIdToken(requireString(body.idToken, 'idToken'), config, nonce);
+      } catch (e: any) {
+        throw e.status ? e : apiError(401, e.message);
+      }
+      // The client supplies the nonce, so it proves nothing on its own; each token is exchanged only once
+      pruneUsedNonces();
+      if (data.usedOidcNonces[nonce]) throw apiError(401, "This sign-in has already been used");
+      data.usedOidcNonces[nonce] = identity.expiresAt;
+      const users = Object.values(data.users);
+      let user: User | undefined;
+      try {
+        user = linkOidcIdentity(users, identity);
+      } catch (e: any) {
+        throw apiError(409, e.message);
+      }
+      const isNew = !user;
+      if (!user) {
+        user = createOidcUserRecord(users, identity);
+        data.users[user.id] = user;
+      }
+      sendJson(res, isNew ? 201 : 200, await startSession(user, body.rememberMe, req));
+
+    } else if (route === 'POST /api/logout') {
+      const found = await getSession(req);
+      if (found) {
+        delete data.sessions[found.session.id];
+        await store.save();
+      }
+      sendJson(res, 204);
+
+    } else if (route === 'POST /api/sessions/refresh') {
+      const { session, user } = await requireSession(req);
+      const token = await rotateSessionToken(session);
+      await store.save();
+      sendJson(res, 200, authResponse(user, session, token));
+
+    } else if (route === 'GET /api/sessions') {
+      const { session, user } = await requireSession(req);
+      sendJson(res, 200, listUserSessions(Object.values(data.sessions), user.id, session.id));
+
+    } else if (route === 'DELETE /api/sessions') {
+      const { session, user } = await requireSession(req);
+      Object.values(data.sessions)
+        .filter(s => s.userId === user.id && s.id !== session.id)
+        .forEach(s => delete data.sessions[s.id]);
+      await store.save();
+      sendJson(res, 204);
+
+    } else if (req.method === 'DELETE' && SESSION_PATH.test(url.pathname)) {
+      const { user } = await requireSession(req);
+      const target = data.sessions[decodeURIComponent(url.pathname.match(SESSION_PATH)![1])];
+      if (!target || target.userId !== user.id) throw apiError(404, "No such session");
+      delete data.sessions[target.id];
+      await store.save();
+      sendJson(res, 204);
+
+    } else if (route === 'GET /api/me') {
+      sendJson(res, 200, withoutPassword(await requireUser(req)));
+
+    } else if (route === 'PATCH /api/me') {
+      const user = await requireUser(req);
+      const body = await readJson(req);
+      if (body.username !== undefined || body.email !== undefined) {
+        const changes = {
+          username: body.username !== undefined ? requireString(body.username, 'username') : undefined,
+          email: body.email !== undefined ? requireString(body.email, 'email') : undefined
+        };
+        try {
+          applyProfileChanges(Object.values(data.users), user, changes);
+        } catch (e: any) {
+          throw apiError(409, e.message);
+        }
+      }
+      if (body.voiceSettings !== undefined) {
+        user.voiceSettings = requireVoiceSettings(body.voiceSettings, 'voiceSettings');
+      }
+      if (body.preferredLanguage !== undefined) {
+        user.preferredLanguage = requireString(body.preferredLanguage, 'preferredLanguage');
+      }
+      sendJson(res, 200, await saveUser(user));
+
+    } else if (route === 'DELETE /api/me') {
+      const user = await requireUser(req);
+      const body = await readJson(req);
+      await assertPassword(user, body.password, "Password is incorrect");
+      delete data.users[user.id];
+      delete data.briefings[user.id];
+      data.feedback = data.feedback.filter(f => f.userId !== user.id);
+      Object.values(data.sessions).filter(s => s.userId === user.id).forEach(s => delete data.sessions[s.id]);
+      await store.save();
+      sendJson(res, 204);
+
+    } else if (route === 'POST /api/me/password') {
+      const { session, user } = await requireSession(req);
+      const body = await readJson(req);
+      await assertPassword(user, body.currentPassword, "Current password is incorrect");
+      user.password = await hashPassword(requireString(body.newPassword, 'newPassword'));
+      Object.values(data.sessions)
+        .filter(s => s.userId === user.id && s.id !== session.id)
+        .forEach(s => delete data.sessions[s.id]);
+      await store.save();
+      sendJson(res, 204);
+
+    } else if (route === 'POST /api/me/age-range') {
+      const user = await requireUser(req);
+      const { ageRange } = await readJson(req);
+      if (!Object.values(AgeRange).includes(ageRange)) throw apiError(400, "ageRange is invalid");
+      applyAgeRangeRequest(user, ageRange);
+      sendJson(res, 200, await saveUser(user));
+
+    } else if (route === 'POST /api/me/onboarding') {
+      const user = await requireUser(req);
+      const { categories } = await readJson(req);
+      if (!Array.isArray(categories)) throw apiError(400, "categories is required");
+      applyOnboarding(user, categories.filter((c): c is string => typeof c === 'string'));
+      sendJson(res, 200, await saveUser(user));
+
+    } else if (route === 'POST /api/me/interests') {
+      const user = await requireUser(req);
+      const body = await readJson(req);
+      if (typeof body.delta !== 'number' || !Number.isFinite(body.delta)) throw apiError(400, "delta is required");
+      applyInterestDelta(user, requireString(body.category, 'category'), body.delta);
+      sendJson(res, 200, await saveUser(user));
+
+    } else if (route === 'POST /api/me/interests/reset') {
+      const user = await requireUser(req);
+      resetInterests(user);
+      sendJson(res, 200, await saveUser(user));
+
+    } else if (route === 'POST /api/me/history') {
+      const user = await requireUser(req);
+      const { articleId } = await readJson(req);
+      if (addReadArticle(user, requireString(articleId, 'articleId'))) await store.save();
+      sendJson(res, 200, withoutPassword(user));
+
+    } else if (route === 'POST /api/feedback') {
+      const user = await requireUser(req);
+      const body = await readJson(req);
+      if (!FEEDBACK_TYPES.includes(body.type)) throw apiError(400, "type is invalid");
+      if (typeof body.value !== 'string' && typeof body.value !== 'number') throw apiError(400, "value is required");
+      const feedback: Feedback = {
+        id: `fb-${Date.now()}-${randomBytes(3).toString('hex')}`,
+        userId: user.id,
+        articleId: typeof body.articleId === 'string' ? body.articleId : undefined,
+        type: body.type,
+        value: body.value,
+        timestamp: new Date().toISOString()
+      };
+      data.feedback.push(feedback);
+      await store.save();
+      sendJson(res, 201, feedback);
+
+    } else if (route === 'GET /api/briefings') {
+      const user = await requireUser(req);
+      sendJson(res, 200, data.briefings[user.id] || {});
+
+    } else if (req.method === 'GET' && DATE_KEY.test(url.pathname)) {
+      const user = await requireUser(req);
+      const briefing = data.briefings[user.id]?.[url.pathname.match(DATE_KEY)![1]];
+      if (!briefing) throw apiError(404, "No briefing for that day");
+      sendJson(res, 200, briefing);
+
+    } else if (req.method === 'PUT' && DATE_KEY.test(url.pathname)) {
+      const user = await requireUser(req);
+      const articles = await readJson(req);
+      if (!Array.isArray(articles)) throw apiError(400, "Expected an array of stories");
+      data.briefings[user.id] = { ...data.briefings[user.id], [url.pathname.match(DATE_KEY)![1]]: articles };
+      await store.save();
+      sendJson(res, 204);
+
+    } else if (req.method === 'POST' && APPROVE_AGE_RANGE_PATH.test(url.pathname)) {
+      requireAdmin(req);
+      const user = data.users[decodeURIComponent(url.pathname.match(APPROVE_AGE_RANGE_PATH)![1])];
+      if (!user) throw apiError(404, "No such user");
+      if (!approveAgeRangeRequest(user)) throw apiError(409, "No pending age range request");
+      console.log(`User ${user.id} is now ${user.ageRange}`);
+      sendJson(res, 200, await saveUser(user));
+
+    } else if (req.method === 'POST' && url.pathname.startsWith('/api/gemini/')) {
+      // Guests can use the app too, so they're limited by address instead
+      const callerId = (await getSession(req))?.user.id || `ip:${req.socket.remoteAddress}`;
+      await handleGemini(req, res, url.pathname.slice('/api/gemini/'.length), callerId);
+
+    } else {
+      throw apiError(404, "Not found");
+    }
+  };
+
+  http.createServer(async (req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', args.origin!);
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    try {
+      await handle(req, res, new URL(req.url || '/', `http://localhost:${port}`));
+    } catch (e: any) {
+      if (e.status) {
+        sendJson(res, e.status, { error: e.message });
+      } else {
+        console.error("API server error", e);
+        if (!res.headersSent) sendJson(res, 500, { error: "Server error" });
+        else res.end();
+      }
+    }
+  }).listen(port, () => {
+    console.log(`API listening on http://localhost:${port} (data in ${dataFile})`);
+  });
+};
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,47 @@
+/**
+ * JSON file storage for the API server. The data is small enough to keep in
+ * memory; each change rewrites the whole file.
+ */
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { Feedback, NewsArticle, Session, User } from '../types';
+
+export interface ApiData {
+  users: Record<string, User>;
+  sessions: Record<string, Session>; // By session id
+  feedback: Feedback[];
+  briefings: Record<string, Record<string, NewsArticle[]>>; // User id -> date key -> stories
+  usedOidcNonces: Record<string, number>; // Nonce of each ID token signed in with -> when that token expires (ms)
+}
+
+export interface FileStore {
+  data: ApiData;
+  /** Writes `data` to disk. Saves run one at a time, in call order. */
+  save: () => Promise<void>;
+}
+
+const emptyData = (): ApiData => ({ users: {}, sessions: {}, feedback: [], briefings: {}, usedOidcNonces: {} });
+
+export const openFileStore = async (filePath: string): Promise<FileStore> => {
+  let data = emptyData();
+  try {
+    data = { ...emptyData(), ...JSON.parse(await fs.readFile(filePath, 'utf-8')) };
+  } catch (e: any) {
+    if (e.code !== 'ENOENT') throw e;
+  }
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+  let queue: Promise<void> = Promise.resolve();
+  const save = () => {
+    // Write to a temp file and rename, so a crash mid-write never leaves half a file
+    const write = queue.catch(() => {}).then(async () => {
+      const tmpPath = `${filePath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(data));
+      await fs.rename(tmpPath, filePath);
+    });
+    queue = write;
+    return write;
+  };
+
+  return { data, save };
+};
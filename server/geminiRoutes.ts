@@ -0,0 +1,192 @@
+/**
+ * Gemini proxy routes, so the API key stays on the server. Each one mirrors a
+ * function in services/geminiService.ts, which calls it when GEMINI_PROXY_URL
+ * is set. Requests are rate limited per user, or per IP address for guests.
+ *
+ *   POST /api/gemini/briefing    { date, ageRange, excludeTitles } -> stories
+ *   POST /api/gemini/translate   { articles, language } -> { [articleId]: translation }
+ *   POST /api/gemini/chat        { history, message, context } -> chat chunks as NDJSON
+ *   POST /api/gemini/transcribe  { audio, mimeType } -> { text }
+ *   POST /api/gemini/tts         { article, mode, voiceSettings?, language? } -> streamed PCM
+ *   POST /api/gemini/speech      { text, voiceName } -> PCM
+ */
+import http from 'node:http';
+import { AgeRange, NewsArticle, TTSMode } from '../types';
+import { ChatContext, PREBUILT_VOICES, fetchDailyBriefing, generateSpeechPcm, streamChatResponse, streamNewsAudioPcm, transcribeAudio, translateArticles } from '../services/geminiService';
+import { apiError, readJson, requireString, requireVoiceSettings, sendJson } from './httpUtils';
+import { RateLimiter, createRateLimiter } from './rateLimiter';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Requests per caller per hour. The app caches briefings, translations and audio, so these are generous
+const RATE_LIMITS: Record<string, number> = {
+  briefing: 30,
+  translate: 60,
+  chat: 60,
+  transcribe: 30,
+  tts: 60,
+  speech: 60
+};
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_LIST_LENGTH = 100;
+const MAX_SPEECH_CHARS = 2000;
+
+const isArticle = (value: unknown): value is NewsArticle => {
+  if (!value || typeof value !== 'object') return false;
+  const { id, title, summary } = value as Record<string, unknown>;
+  return typeof id === 'string' && typeof title === 'string' && typeof summary === 'string';
+};
+
+const requireArticles = (value: unknown, field: string): NewsArticle[] => {
+  if (!Array.isArray(value) || value.length > MAX_LIST_LENGTH || !value.every(isArticle)) {
+    throw apiError(400, `${field} must be a list of stories`);
+  }
+  return value;
+};
+
+const optionalString = (value: unknown, field: string): string | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') throw apiError(400, `${field} is invalid`);
+  return value;
+};
+
+// Stops the upstream request if the client goes away mid-stream
+const abortOnClose = (res: http.ServerResponse) => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+};
+
+/**
+ * Sends each chunk as it arrives. Headers go out with the first chunk, so a
+ * request that fails before any output still gets a proper error status.
+ * Returns the error if the stream broke part way through.
+ */
+const pipeStream = async <T>(
+  res: http.ServerResponse,
+  contentType: string,
+  stream: AsyncGenerator<T>,
+  encode: (chunk: T) => string | Uint8Array
+): Promise<unknown> => {
+  try {
+    for await (const chunk of stream) {
+      if (!res.headersSent) res.writeHead(200, { 'Content-Type': contentType });
+      res.write(encode(chunk));
+    }
+    if (!res.headersSent) res.writeHead(200, { 'Content-Type': contentType });
+    return null;
+  } catch (error) {
+    if (!res.headersSent) {
+      console.error("Gemini request failed", error);
+      throw apiError(502, "The model request failed");
+    }
+    return error;
+  }
+};
+
+/**
+ * Returns the handler for POST /api/gemini/<endpoint>. `callerId` identifies
+ * whose rate limit the request counts against.
+ */
+export const createGeminiRoutes = () => {
+  const limiters: Record<string, RateLimiter> = {};
+  Object.entries(RATE_LIMITS).forEach(([endpoint, limit]) => {
+    limiters[endpoint] = createRateLimiter(limit, HOUR_MS);
+  });
+
+  return async (req: http.IncomingMessage, res: http.ServerResponse, endpoint: string, callerId: string) => {
+    const limiter = limiters[endpoint];
+    if (!limiter) throw apiError(404, "Not found");
+    if (!process.env.API_KEY && !process.env.GEMINI_API_KEY) {
+      throw apiError(503, "The Gemini proxy has no API key (set GEMINI_API_KEY)");
+    }
+
+    const retryAfterMs = limiter.take(`${endpoint}:${callerId}`);
+    if (retryAfterMs > 0) {
+      const minutes = Math.ceil(retryAfterMs / 60000);
+      res.setHeader('Retry-After', Math.ceil(retryAfterMs / 1000));
+      throw apiError(429, `You've hit the hourly limit for this feature. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`);
+    }
+
+    const body = await readJson(req);
+
+    if (endpoint === 'briefing') {
+      const date = requireString(body.date, 'date');
+      if (!DATE_KEY.test(date)) throw apiError(400, "date must be YYYY-MM-DD");
+      if (!Object.values(AgeRange).includes(body.ageRange)) throw apiError(400, "ageRange is invalid");
+      const excludeTitles = body.excludeTitles ?? [];
+      if (!Array.isArray(excludeTitles) || excludeTitles.length > MAX_LIST_LENGTH || !excludeTitles.every(t => typeof t === 'string')) {
+        throw apiError(400, "excludeTitles must be a list of titles");
+      }
+      let stories;
+      try {
+        // Midday, so the day doesn't shift across time zones
+        stories = await fetchDailyBriefing(new Date(`${date}T12:00:00`), body.ageRange, excludeTitles);
+      } catch (error) {
+        throw apiError(502, "The model request failed");
+      }
+      sendJson(res, 200, stories);
+
+    } else if (endpoint === 'translate') {
+      sendJson(res, 200, await translateArticles(requireArticles(body.articles, 'articles'), requireString(body.language, 'language')));
+
+    } else if (endpoint === 'chat') {
+      if (!Array.isArray(body.history) || body.history.length > MAX_LIST_LENGTH) throw apiError(400, "history is invalid");
+      const context: ChatContext = {
+        briefing: requireArticles(body.context?.briefing ?? [], 'context.briefing'),
+        focusedArticle: isArticle(body.context?.focusedArticle) ? body.context.focusedArticle : null,
+        language: optionalString(body.context?.language, 'context.language')
+      };
+      const signal = abortOnClose(res);
+      const stream = streamChatResponse(body.history, requireString(body.message, 'message'), context, signal);
+      const error = await pipeStream(res, 'application/x-ndjson', stream, chunk => JSON.stringify(chunk) + '\n');
+      if (error && !signal.aborted) {
+        console.error("Gemini chat stream failed", error);
+        res.write(JSON.stringify({ error: "The model request failed" }) + '\n');
+      }
+      res.end();
+
+    } else if (endpoint === 'transcribe') {
+      const mimeType = requireString(body.mimeType, 'mimeType');
+      if (!mimeType.startsWith('audio/')) throw apiError(400, "mimeType must be an audio type");
+      sendJson(res, 200, { text: await transcribeAudio(requireString(body.audio, 'audio'), mimeType) });
+
+    } else if (endpoint === 'tts') {
+      if (!isArticle(body.article)) throw apiError(400, "article is required");
+      if (!Object.values(TTSMode).includes(body.mode)) throw apiError(400, "mode is invalid");
+      const voiceSettings = body.voiceSettings !== undefined ? requireVoiceSettings(body.voiceSettings, 'voiceSettings') : undefined;
+      const signal = abortOnClose(res);
+      const stream = streamNewsAudioPcm(body.article, body.mode, {
+        voiceSettings,
+        language: optionalString(body.language, 'language'),
+        signal
+      });
+      const error = await pipeStream(res, 'application/octet-stream', stream, bytes => bytes);
+      if (error) {
+        // Raw audio has no way to carry an error, so cut the response short; the app won't cache it
+        if (!signal.aborted) console.error("Gemini TTS stream failed", error);
+        res.destroy();
+      } else {
+        res.end();
+      }
+
+    } else if (endpoint === 'speech') {
+      const text = requireString(body.text, 'text');
+      if (text.length > MAX_SPEECH_CHARS) throw apiError(400, "text is too long");
+      const voiceName = optionalString(body.voiceName, 'voiceName');
+      if (voiceName && !PREBUILT_VOICES.some(v => v.name === voiceName)) throw apiError(400, "voiceName is invalid");
+      let pcm: Uint8Array;
+      try {
+        pcm = await generateSpeechPcm(text, voiceName);
+      } catch (error) {
+        console.error("Gemini speech request failed", error);
+        throw apiError(502, "The model request failed");
+      }
+      res.writeHead(200, { 'Content-Type': 'application/octet-stream', 'Content-Length': pcm.length });
+      res.end(pcm);
+    }
+  };
+};
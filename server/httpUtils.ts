@@ -0,0 +1,68 @@
+/**
+ * Request and response helpers shared by the API server's routes.
+ */
+import http from 'node:http';
+import { TTSMode, TTSSpeaker, VoiceSettings } from '../types';
+import { PREBUILT_VOICES } from '../services/geminiService';
+
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+// Matches the host name field in the voice settings panel
+const MAX_SPEAKER_NAME_CHARS = 20;
+
+export type ApiError = Error & { status: number };
+
+/** An error sent to the client as `{ error: message }` with this status. */
+export const apiError = (status: number, message: string): ApiError => Object.assign(new Error(message), { status });
+
+export const readJson = async (req: http.IncomingMessage): Promise<any> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw apiError(413, "Request body too large");
+    chunks.push(chunk);
+  }
+  if (chunks.length === 0) return {};
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch {
+    throw apiError(400, "Invalid JSON");
+  }
+};
+
+export const sendJson = (res: http.ServerResponse, status: number, body?: unknown) => {
+  if (body === undefined) {
+    res.writeHead(status).end();
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+export const requireString = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !value.trim()) throw apiError(400, `${field} is required`);
+  return value.trim();
+};
+
+const isSpeaker = (value: unknown): value is TTSSpeaker => {
+  if (!value || typeof value !== 'object') return false;
+  const { name, voice } = value as Record<string, unknown>;
+  return typeof name === 'string' && name.length <= MAX_SPEAKER_NAME_CHARS
+    && typeof voice === 'string' && PREBUILT_VOICES.some(v => v.name === voice);
+};
+
+/**
+ * Checks voice settings from a request: keys must be TTS modes and values
+ * lists of speakers using Gemini's prebuilt voices. Returns a clean copy.
+ */
+export const requireVoiceSettings = (value: unknown, field: string): VoiceSettings => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw apiError(400, `${field} is invalid`);
+  const settings: VoiceSettings = {};
+  for (const [mode, speakers] of Object.entries(value)) {
+    if (!(Object.values(TTSMode) as string[]).includes(mode) || !Array.isArray(speakers) || !speakers.every(isSpeaker)) {
+      throw apiError(400, `${field} is invalid`);
+    }
+    settings[mode as TTSMode] = speakers.map(({ name, voice }) => ({ name, voice }));
+  }
+  return settings;
+};
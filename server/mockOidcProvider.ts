@@ -0,0 +1,238 @@
+/**
+ * A stand-in OpenID Connect provider for trying identity provider sign-in
+ * locally, without Google. Its sign-in page lets you type any email address,
+ * so never expose it beyond your own machine.
+ *
+ * Usage:
+ *   npm run mock-idp -- --port 4300 --client-id yesterday-in-review
+ *
+ * then set in .env.local:
+ *   OIDC_ISSUER=http://localhost:4300
+ *   OIDC_CLIENT_ID=yesterday-in-review
+ *   OIDC_PROVIDER_NAME=Mock IdP
+ *
+ * Supports the authorization code flow with PKCE (S256 only), RS256 ID
+ * tokens, discovery and JWKS; nothing else.
+ */
+import http from 'node:http';
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'node:crypto';
+import { parseArgs } from 'node:util';
+
+const CODE_TTL_MS = 60 * 1000;
+const ID_TOKEN_TTL_SECONDS = 10 * 60;
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: 'string', default: process.env.MOCK_IDP_PORT || '4300' },
+    'client-id': { type: 'string', default: process.env.OIDC_CLIENT_ID || 'yesterday-in-review' }
+  }
+});
+
+const port = Number(args.port);
+const clientId = args['client-id']!;
+const issuer = `http://localhost:${port}`;
+
+// A fresh signing key each run; the app fetches it from /jwks
+const keyId = randomBytes(8).toString('hex');
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const publicJwk = { ...publicKey.export({ format: 'jwk' }), kid: keyId, alg: 'RS256', use: 'sig' };
+
+interface PendingCode {
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  email: string;
+  name: string;
+  emailVerified: boolean;
+  expiresAt: number;
+}
+
+const codes = new Map<string, PendingCode>();
+
+const base64Url = (value: string | Buffer) => Buffer.from(value).toString('base64url');
+
+const signIdToken = (claims: Record<string, unknown>) => {
+  const header = base64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: keyId }));
+  const payload = base64Url(JSON.stringify(claims));
+  const signature = sign('sha256', Buffer.from(`${header}.${payload}`), privateKey).toString('base64url');
+  return `${header}.${payload}.${signature}`;
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const readForm = async (req: http.IncomingMessage) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return new URLSearchParams(Buffer.concat(chunks).toString('utf-8'));
+};
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+};
+
+const redirectWith = (res: http.ServerResponse, redirectUri: string, params: Record<string, string>) => {
+  const url = new URL(redirectUri);
+  Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+  res.writeHead(302, { Location: url.toString() }).end();
+};
+
+/**
+ * Checks an authorization request. Returns an error message, or null if it's fine.
+ */
+const validateAuthorizeParams = (params: URLSearchParams): string | null => {
+  if (params.get('response_type') !== 'code') return "response_type must be code";
+  if (params.get('client_id') !== clientId) return `Unknown client_id (expected ${clientId})`;
+  const redirectUri = params.get('redirect_uri');
+  if (!redirectUri || !/^https?:\/\//.test(redirectUri)) return "redirect_uri must be an http(s) URL";
+  if (!params.get('code_challenge') || params.get('code_challenge_method') !== 'S256') return "PKCE with S256 is required";
+  if (!params.get('scope')?.split(' ').includes('openid')) return "scope must include openid";
+  return null;
+};
+
+const renderSignInPage = (params: URLSearchParams) => {
+  const hidden = ['redirect_uri', 'state', 'nonce', 'code_challenge']
+    .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(params.get(name) || '')}">`)
+    .join('\n        ');
+  return `<!doctype html>
+<html>
+  <head>
+    <title>Mock identity provider</title>
+    <style>
+      body { font-family: system-ui, sans-serif; background: #0f172a; color: #e2e8f0; display: flex; justify-content: center; padding-top: 10vh; }
+      form { background: #1e293b; padding: 2rem; border-radius: 1rem; width: 22rem; display: grid; gap: 0.75rem; }
+      input[type=text], input[type=email] { padding: 0.5rem; border-radius: 0.5rem; border: 1px solid #475569; background: #0f172a; color: inherit; }
+      button { padding: 0.6rem; border-radius: 0.5rem; border: 0; font-weight: 600; cursor: pointer; }
+      .primary { background: #6366f1; color: white; }
+      small { color: #94a3b8; }
+    </style>
+  </head>
+  <body>
+    <form method="post" action="/authorize">
+      <h2>Mock identity provider</h2>
+      <small>Signing in to ${escapeHtml(clientId)}. For local testing only.</small>
+      <label>Email <input type="email" name="email" value="demo.user@example.com" required></label>
+      <label>Name <input type="text" name="name" value="Demo User"></label>
+      <label><input type="checkbox" name="email_verified" checked> Email is verified</label>
+      ${hidden}
+      <button class="primary" type="submit" name="action" value="allow">Sign in</button>
+      <button type="submit" name="action" value="deny">Cancel</button>
+    </form>
+  </body>
+</html>`;
+};
+
+const handle = async (req: http.IncomingMessage, res: http.ServerResponse, url: URL) => {
+  const route = `${req.method} ${url.pathname}`;
+
+  if (route === 'GET /.well-known/openid-configuration') {
+    sendJson(res, 200, {
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256'],
+      scopes_supported: ['openid', 'email', 'profile'],
+      token_endpoint_auth_methods_supported: ['none']
+    });
+
+  } else if (route === 'GET /jwks') {
+    sendJson(res, 200, { keys: [publicJwk] });
+
+  } else if (route === 'GET /authorize') {
+    const error = validateAuthorizeParams(url.searchParams);
+    if (error) {
+      res.writeHead(400, { 'Content-Type': 'text/plain' }).end(error);
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(renderSignInPage(url.searchParams));
+
+  } else if (route === 'POST /authorize') {
+    const form = await readForm(req);
+    const redirectUri = form.get('redirect_uri') || '';
+    const state = form.get('state') || '';
+    if (!/^https?:\/\//.test(redirectUri)) {
+      res.writeHead(400, { 'Content-Type': 'text/plain' }).end("redirect_uri must be an http(s) URL");
+      return;
+    }
+    if (form.get('action') !== 'allow') {
+      redirectWith(res, redirectUri, { error: 'access_denied', state });
+      return;
+    }
+
+    const code = randomBytes(24).toString('base64url');
+    codes.set(code, {
+      redirectUri,
+      codeChallenge: form.get('code_challenge') || '',
+      nonce: form.get('nonce') || undefined,
+      email: (form.get('email') || '').trim().toLowerCase(),
+      name: (form.get('name') || '').trim(),
+      emailVerified: form.get('email_verified') === 'on',
+      expiresAt: Date.now() + CODE_TTL_MS
+    });
+    redirectWith(res, redirectUri, { code, state, iss: issuer });
+
+  } else if (route === 'POST /token') {
+    const form = await readForm(req);
+    const code = form.get('code') || '';
+    const pending = codes.get(code);
+    codes.delete(code); // Single use, even if the exchange fails
+
+    if (form.get('grant_type') !== 'authorization_code') {
+      sendJson(res, 400, { error: 'unsupported_grant_type' });
+    } else if (!pending || pending.expiresAt < Date.now()) {
+      sendJson(res, 400, { error: 'invalid_grant', error_description: "The code is invalid or has expired" });
+    } else if (form.get('client_id') !== clientId || form.get('redirect_uri') !== pending.redirectUri) {
+      sendJson(res, 400, { error: 'invalid_grant', error_description: "client_id or redirect_uri doesn't match the authorization request" });
+    } else if (base64Url(createHash('sha256').update(form.get('code_verifier') || '').digest()) !== pending.codeChallenge) {
+      sendJson(res, 400, { error: 'invalid_grant', error_description: "PKCE verification failed" });
+    } else {
+      const now = Math.floor(Date.now() / 1000);
+      sendJson(res, 200, {
+        access_token: randomBytes(24).toString('base64url'),
+        token_type: 'Bearer',
+        expires_in: ID_TOKEN_TTL_SECONDS,
+        id_token: signIdToken({
+          iss: issuer,
+          aud: clientId,
+          // Stable per email, like a real provider's user id
+          sub: createHash('sha256').update(pending.email).digest('hex').slice(0, 24),
+          email: pending.email,
+          email_verified: pending.emailVerified,
+          name: pending.name || undefined,
+          nonce: pending.nonce,
+          iat: now,
+          exp: now + ID_TOKEN_TTL_SECONDS
+        })
+      });
+    }
+
+  } else {
+    res.writeHead(404).end('Not found');
+  }
+};
+
+http.createServer(async (req, res) => {
+  // The app calls discovery, JWKS and the token endpoint from the browser
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  try {
+    await handle(req, res, new URL(req.url || '/', issuer));
+  } catch (e) {
+    console.error("Mock identity provider error", e);
+    if (!res.headersSent) res.writeHead(500);
+    res.end('Server error');
+  }
+}).listen(port, () => {
+  console.log(`Mock identity provider at ${issuer} (client_id ${clientId})`);
+});
@@ -0,0 +1,184 @@
+/**
+ * Serves (or writes) a podcast feed of daily briefings.
+ *
+ * The feed is built from a folder of files downloaded from the app with the
+ * "full day" button in the audio player:
+ *   <YYYY-MM-DD>.json           the cached briefing for that day
+ *   <YYYY-MM-DD>-full-day.wav   the exported full-day episode
+ *
+ * Usage:
+ *   npm run podcast -- --dir ./podcast --port 4000
+ *   npm run podcast -- --dir ./podcast --base-url https://example.com/podcast --out ./podcast/feed.xml
+ */
+import http from 'node:http';
+import { createReadStream } from 'node:fs';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { NewsArticle } from '../types';
+import { buildPodcastFeed, PodcastChannel, PodcastEpisode } from '../services/podcastFeed';
+
+const BRIEFING_FILE = /^(\d{4}-\d{2}-\d{2})\.json$/;
+const FULL_DAY_SUFFIX = '-full-day';
+const AUDIO_TYPES: Record<string, string> = {
+  '.wav': 'audio/wav',
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4'
+};
+
+const { values: args } = parseArgs({
+  options: {
+    dir: { type: 'string', default: process.env.PODCAST_DIR || './podcast' },
+    port: { type: 'string', default: process.env.PODCAST_PORT || '4000' },
+    'base-url': { type: 'string', default: process.env.PODCAST_BASE_URL },
+    out: { type: 'string' }
+  }
+});
+
+const podcastDir = path.resolve(args.dir!);
+const port = Number(args.port);
+const baseUrl = (args['base-url'] || `http://localhost:${port}`).replace(/\/$/, '');
+
+const channel: PodcastChannel = {
+  title: 'Yesterday in Review',
+  link: baseUrl,
+  description: "A daily audio briefing of the previous day's most important news.",
+  author: 'Yesterday in Review'
+};
+
+/**
+ * Reads a WAV header to work out its duration without loading the whole file.
+ */
+const readWavDuration = async (filePath: string): Promise<number | undefined> => {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const header = Buffer.alloc(4096);
+    const { bytesRead } = await handle.read(header, 0, header.length, 0);
+    if (bytesRead < 12 || header.toString('ascii', 0, 4) !== 'RIFF') return undefined;
+
+    let byteRate = 0;
+    let offset = 12;
+    while (offset + 8 <= bytesRead) {
+      const id = header.toString('ascii', offset, offset + 4);
+      const size = header.readUInt32LE(offset + 4);
+      if (id === 'fmt ') byteRate = header.readUInt32LE(offset + 16);
+      if (id === 'data') return byteRate ? size / byteRate : undefined;
+      offset += 8 + size + (size % 2);
+    }
+    return undefined;
+  } finally {
+    await handle.close();
+  }
+};
+
+/**
+ * Pairs each briefing JSON with its audio file. Days without audio are skipped.
+ */
+const loadEpisodes = async (): Promise<PodcastEpisode[]> => {
+  const files = await fs.readdir(podcastDir);
+  const episodes: PodcastEpisode[] = [];
+
+  for (const file of files) {
+    const match = file.match(BRIEFING_FILE);
+    if (!match) continue;
+    const dateKey = match[1];
+
+    // Single-story downloads are named <date>-<slug> too, so match the full-day name exactly
+    const audioFile = files.find(f => {
+      const ext = path.extname(f);
+      return f === `${dateKey}${FULL_DAY_SUFFIX}${ext}` && AUDIO_TYPES[ext.toLowerCase()];
+    });
+    if (!audioFile) {
+      console.warn(`Skipping ${dateKey}: no ${dateKey}${FULL_DAY_SUFFIX} audio file found`);
+      continue;
+    }
+
+    try {
+      const articles: NewsArticle[] = JSON.parse(await fs.readFile(path.join(podcastDir, file), 'utf-8'));
+      const audioPath = path.join(podcastDir, audioFile);
+      const ext = path.extname(audioFile).toLowerCase();
+      episodes.push({
+        dateKey,
+        articles,
+        audioUrl: `${baseUrl}/audio/${encodeURIComponent(audioFile)}`,
+        audioBytes: (await fs.stat(audioPath)).size,
+        audioType: AUDIO_TYPES[ext],
+        durationSeconds: ext === '.wav' ? await readWavDuration(audioPath) : undefined
+      });
+    } catch (e) {
+      console.warn(`Skipping ${dateKey}: could not read briefing`, e);
+    }
+  }
+  return episodes;
+};
+
+const buildFeed = async () => buildPodcastFeed(channel, await loadEpisodes());
+
+/**
+ * Streams an audio file, honouring single byte-range requests since most
+ * podcast players seek that way.
+ */
+const serveAudio = async (req: http.IncomingMessage, res: http.ServerResponse, fileName: string) => {
+  // Only serve files directly inside the podcast folder
+  const filePath = path.join(podcastDir, path.basename(fileName));
+  const type = AUDIO_TYPES[path.extname(filePath).toLowerCase()];
+  const stat = type ? await fs.stat(filePath).catch(() => null) : null;
+  if (!stat) {
+    res.writeHead(404).end('Not found');
+    return;
+  }
+
+  const range = req.headers.range?.match(/^bytes=(\d*)-(\d*)$/);
+  if (range && (range[1] || range[2])) {
+    const start = range[1] ? Number(range[1]) : Math.max(0, stat.size - Number(range[2]));
+    const end = range[1] && range[2] ? Math.min(Number(range[2]), stat.size - 1) : stat.size - 1;
+    if (start > end) {
+      res.writeHead(416, { 'Content-Range': `bytes */${stat.size}` }).end();
+      return;
+    }
+    res.writeHead(206, {
+      'Content-Type': type,
+      'Content-Length': end - start + 1,
+      'Content-Range': `bytes ${start}-${end}/${stat.size}`,
+      'Accept-Ranges': 'bytes'
+    });
+    createReadStream(filePath, { start, end }).pipe(res);
+    return;
+  }
+
+  res.writeHead(200, { 'Content-Type': type, 'Content-Length': stat.size, 'Accept-Ranges': 'bytes' });
+  createReadStream(filePath).pipe(res);
+};
+
+const main = async () => {
+  if (args.out) {
+    await fs.writeFile(args.out, await buildFeed());
+    console.log(`Wrote podcast feed to ${args.out}`);
+    return;
+  }
+
+  http.createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url || '/', baseUrl);
+      if (url.pathname === '/feed.xml' || url.pathname === '/') {
+        res.writeHead(200, { 'Content-Type': 'application/rss+xml; charset=utf-8' });
+        res.end(await buildFeed());
+      } else if (url.pathname.startsWith('/audio/')) {
+        await serveAudio(req, res, decodeURIComponent(url.pathname.slice('/audio/'.length)));
+      } else {
+        res.writeHead(404).end('Not found');
+      }
+    } catch (e) {
+      console.error("Podcast server error", e);
+      if (!res.headersSent) res.writeHead(500);
+      res.end('Server error');
+    }
+  }).listen(port, () => {
+    console.log(`Podcast feed at ${baseUrl}/feed.xml (serving ${podcastDir})`);
+  });
+};
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
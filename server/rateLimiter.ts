@@ -0,0 +1,35 @@
+/**
+ * Fixed-window request counter, e.g. at most 60 requests per hour per user.
+ * Counts are kept in memory, so they reset when the server restarts.
+ */
+export const createRateLimiter = (limit: number, windowMs: number) => {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  const prune = (now: number) => {
+    windows.forEach((window, key) => {
+      if (now - window.start >= windowMs) windows.delete(key);
+    });
+  };
+
+  return {
+    /**
+     * Counts a request for `key`. Returns 0 if it is allowed, otherwise how
+     * many milliseconds until the caller may try again.
+     */
+    take: (key: string): number => {
+      const now = Date.now();
+      if (windows.size > 10000) prune(now);
+
+      const window = windows.get(key);
+      if (!window || now - window.start >= windowMs) {
+        windows.set(key, { start: now, count: 1 });
+        return 0;
+      }
+      if (window.count >= limit) return window.start + windowMs - now;
+      window.count++;
+      return 0;
+    }
+  };
+};
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
@@ -0,0 +1,180 @@
+import { TTSMode } from "../types";
+
+const DB_NAME = 'yir_audio';
+const DB_VERSION = 2;
+// Clip metadata, small enough to list on every cache change
+const STORE_CLIPS = 'clips';
+// The audio itself, keyed like the metadata and only read when a clip is played
+const STORE_PCM = 'pcm';
+
+// Raw 24kHz 16-bit PCM is ~2.9MB per minute, so this holds roughly 30 minutes
+export const MAX_AUDIO_CACHE_BYTES = 100 * 1024 * 1024;
+
+export interface CachedClipInfo {
+  key: string;
+  articleId: string;
+  mode: TTSMode;
+  voice: string;
+  size: number;
+  createdAt: string;
+  lastAccessed: string;
+}
+
+/**
+ * Cache key for a generated clip. The voice is part of the key so changing
+ * voices never replays audio in the old one.
+ */
+export const getAudioCacheKey = (articleId: string, mode: TTSMode, voice: string) => `${articleId}:${mode}:${voice}`;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          const store = db.createObjectStore(STORE_CLIPS, { keyPath: 'key' });
+          store.createIndex('lastAccessed', 'lastAccessed');
+        }
+        if (event.oldVersion < 2) {
+          const pcmStore = db.createObjectStore(STORE_PCM);
+          // Version 1 kept the audio inside each clip record; move it out
+          const cursorRequest = request.transaction!.objectStore(STORE_CLIPS).openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            const { pcm, ...info } = cursor.value;
+            if (pcm) {
+              pcmStore.put(pcm, info.key);
+              cursor.update(info);
+            }
+            cursor.continue();
+          };
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return promisify(fn(db.transaction(storeName, mode).objectStore(storeName)));
+};
+
+/**
+ * Runs writes against both stores in one transaction, resolving once it commits.
+ */
+const withBothStores = async (fn: (clipStore: IDBObjectStore, pcmStore: IDBObjectStore) => void): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([STORE_CLIPS, STORE_PCM], 'readwrite');
+  fn(tx.objectStore(STORE_CLIPS), tx.objectStore(STORE_PCM));
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const listClips = (): Promise<CachedClipInfo[]> =>
+  withStore(STORE_CLIPS, 'readonly', store => store.getAll() as IDBRequest<CachedClipInfo[]>);
+
+/**
+ * Drops least recently played clips until the cache fits in MAX_AUDIO_CACHE_BYTES.
+ */
+const evictIfNeeded = async () => {
+  const clips = await listClips();
+  let total = clips.reduce((sum, c) => sum + c.size, 0);
+  if (total <= MAX_AUDIO_CACHE_BYTES) return;
+
+  const oldestFirst = [...clips].sort((a, b) => a.lastAccessed.localeCompare(b.lastAccessed));
+  for (const clip of oldestFirst) {
+    if (total <= MAX_AUDIO_CACHE_BYTES) break;
+    await withBothStores((clipStore, pcmStore) => {
+      clipStore.delete(clip.key);
+      pcmStore.delete(clip.key);
+    });
+    total -= clip.size;
+  }
+};
+
+/**
+ * Persistent IndexedDB cache for raw TTS output, so replays and reloads
+ * don't call the TTS model again. All methods fail soft: a broken cache
+ * only means audio gets regenerated.
+ */
+export const audioCache = {
+  get: async (key: string): Promise<Uint8Array | null> => {
+    try {
+      const clip = await withStore(STORE_CLIPS, 'readonly', store => store.get(key) as IDBRequest<CachedClipInfo | undefined>);
+      if (!clip) return null;
+      const pcm = await withStore(STORE_PCM, 'readonly', store => store.get(key) as IDBRequest<ArrayBuffer | undefined>);
+      if (!pcm) return null;
+      // Touch for LRU eviction
+      await withStore(STORE_CLIPS, 'readwrite', store => store.put({ ...clip, lastAccessed: new Date().toISOString() }));
+      return new Uint8Array(pcm);
+    } catch (e) {
+      console.warn("Audio cache read failed", e);
+      return null;
+    }
+  },
+
+  put: async (articleId: string, mode: TTSMode, voice: string, pcm: Uint8Array) => {
+    const now = new Date().toISOString();
+    const clip: CachedClipInfo = {
+      key: getAudioCacheKey(articleId, mode, voice),
+      articleId,
+      mode,
+      voice,
+      size: pcm.byteLength,
+      createdAt: now,
+      lastAccessed: now
+    };
+    try {
+      await withBothStores((clipStore, pcmStore) => {
+        clipStore.put(clip);
+        // Copy so we store exactly these bytes, not a larger backing buffer
+        pcmStore.put(pcm.slice().buffer, clip.key);
+      });
+      await evictIfNeeded();
+    } catch (e) {
+      console.warn("Audio cache write failed", e);
+    }
+  },
+
+  list: async (): Promise<CachedClipInfo[]> => {
+    try {
+      return await listClips();
+    } catch (e) {
+      console.warn("Audio cache list failed", e);
+      return [];
+    }
+  },
+
+  clear: async () => {
+    try {
+      await withBothStores((clipStore, pcmStore) => {
+        clipStore.clear();
+        pcmStore.clear();
+      });
+    } catch (e) {
+      console.warn("Audio cache clear failed", e);
+    }
+  }
+};
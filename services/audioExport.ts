@@ -0,0 +1,205 @@
+import { NewsArticle } from "../types";
+import { concatBytes } from "./audioUtils";
+import { toDateKey } from "./geminiService";
+
+export const EXPORT_SAMPLE_RATE = 24000;
+// Gemini resamples speech input to 16 kHz anyway, so recordings are sent at that rate
+const RECORDING_SAMPLE_RATE = 16000;
+const GAP_BETWEEN_STORIES_SECONDS = 1.5;
+const SHOW_NAME = 'Yesterday in Review';
+
+export interface EpisodeMetadata {
+  title: string;
+  artist: string;
+  album: string;
+  date: string; // YYYY-MM-DD
+  comment?: string;
+}
+
+/**
+ * Converts an AudioBuffer (first channel) back to 16-bit PCM.
+ */
+export function audioBufferToPcm16(buffer: AudioBuffer): Int16Array {
+  const channel = buffer.getChannelData(0);
+  const pcm = new Int16Array(channel.length);
+  for (let i = 0; i < channel.length; i++) {
+    const sample = Math.max(-1, Math.min(1, channel[i]));
+    pcm[i] = sample < 0 ? sample * 32768 : sample * 32767;
+  }
+  return pcm;
+}
+
+/**
+ * Re-encodes a microphone recording as mono WAV. MediaRecorder picks the
+ * container (WebM in Chrome), and not all of them are accepted by Gemini.
+ */
+export async function recordingToWav(blob: Blob, sampleRate = RECORDING_SAMPLE_RATE): Promise<Blob> {
+  // decodeAudioData resamples to the context's rate; an offline context needs no audio device
+  const ctx = new OfflineAudioContext(1, 1, sampleRate);
+  const buffer = await ctx.decodeAudioData(await blob.arrayBuffer());
+  return encodeWav(audioBufferToPcm16(buffer), undefined, buffer.sampleRate);
+}
+
+/**
+ * Joins clips end to end with a short silence between them.
+ */
+export function concatPcm(clips: Int16Array[], sampleRate = EXPORT_SAMPLE_RATE, gapSeconds = GAP_BETWEEN_STORIES_SECONDS): Int16Array {
+  const gap = Math.round(sampleRate * gapSeconds);
+  const total = clips.reduce((sum, c) => sum + c.length, 0) + gap * Math.max(0, clips.length - 1);
+  const out = new Int16Array(total);
+  let offset = 0;
+  clips.forEach((clip, i) => {
+    out.set(clip, offset);
+    offset += clip.length + (i < clips.length - 1 ? gap : 0);
+  });
+  return out;
+}
+
+// --- Binary helpers ---
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+const uint32LE = (value: number) => {
+  const b = new Uint8Array(4);
+  new DataView(b.buffer).setUint32(0, value, true);
+  return b;
+};
+
+// ID3v2.4 sizes are "synchsafe": 7 bits per byte
+const synchsafe = (value: number) => Uint8Array.of(
+  (value >> 21) & 0x7f,
+  (value >> 14) & 0x7f,
+  (value >> 7) & 0x7f,
+  value & 0x7f
+);
+
+/**
+ * A RIFF chunk, padded to an even length as the format requires.
+ */
+const riffChunk = (id: string, body: Uint8Array): Uint8Array => {
+  const pad = body.length % 2 === 1 ? Uint8Array.of(0) : new Uint8Array(0);
+  return concatBytes([ascii(id), uint32LE(body.length), body, pad]);
+};
+
+// --- Metadata ---
+
+const id3Frame = (id: string, body: Uint8Array) =>
+  concatBytes([ascii(id), synchsafe(body.length), Uint8Array.of(0, 0), body]);
+
+// Encoding byte 3 = UTF-8
+const id3TextFrame = (id: string, text: string) => id3Frame(id, concatBytes([Uint8Array.of(3), utf8(text)]));
+
+const id3CommentFrame = (text: string) =>
+  id3Frame('COMM', concatBytes([Uint8Array.of(3), ascii('eng'), Uint8Array.of(0), utf8(text)]));
+
+/**
+ * Builds an ID3v2.4 tag with title, artist, album, date and comment.
+ */
+export function buildId3Tag(meta: EpisodeMetadata): Uint8Array {
+  const frames = concatBytes([
+    id3TextFrame('TIT2', meta.title),
+    id3TextFrame('TPE1', meta.artist),
+    id3TextFrame('TALB', meta.album),
+    id3TextFrame('TDRC', meta.date),
+    ...(meta.comment ? [id3CommentFrame(meta.comment)] : [])
+  ]);
+  return concatBytes([ascii('ID3'), Uint8Array.of(4, 0, 0), synchsafe(frames.length), frames]);
+}
+
+// RIFF INFO strings are null-terminated
+const infoEntry = (id: string, text: string) => riffChunk(id, concatBytes([utf8(text), Uint8Array.of(0)]));
+
+const buildInfoList = (meta: EpisodeMetadata) => riffChunk('LIST', concatBytes([
+  ascii('INFO'),
+  infoEntry('INAM', meta.title),
+  infoEntry('IART', meta.artist),
+  infoEntry('IPRD', meta.album),
+  infoEntry('ICRD', meta.date),
+  ...(meta.comment ? [infoEntry('ICMT', meta.comment)] : [])
+]));
+
+/**
+ * Encodes 16-bit mono PCM as a WAV file. Metadata is written both as a RIFF
+ * INFO list and an embedded ID3 tag, since players disagree on which they read.
+ * There is no compressed option: MediaRecorder only encodes in real time and
+ * can't write tags (see "Audio export" in the README).
+ */
+export function encodeWav(pcm: Int16Array, meta?: EpisodeMetadata, sampleRate = EXPORT_SAMPLE_RATE): Blob {
+  const numChannels = 1;
+  const bytesPerSample = 2;
+
+  const fmt = new Uint8Array(16);
+  const view = new DataView(fmt.buffer);
+  view.setUint16(0, 1, true); // PCM
+  view.setUint16(2, numChannels, true);
+  view.setUint32(4, sampleRate, true);
+  view.setUint32(8, sampleRate * numChannels * bytesPerSample, true);
+  view.setUint16(12, numChannels * bytesPerSample, true);
+  view.setUint16(14, bytesPerSample * 8, true);
+
+  const data = new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength);
+  const body = concatBytes([
+    ascii('WAVE'),
+    riffChunk('fmt ', fmt),
+    riffChunk('data', data),
+    ...(meta ? [buildInfoList(meta), riffChunk('id3 ', buildId3Tag(meta))] : [])
+  ]);
+
+  return new Blob([ascii('RIFF'), uint32LE(body.length), body], { type: 'audio/wav' });
+}
+
+// --- Episode helpers ---
+// Dates use the local calendar day, the one the briefing was fetched for
+
+/**
+ * Metadata for a single story clip.
+ */
+export function articleMetadata(article: NewsArticle, date: Date, modeLabel: string): EpisodeMetadata {
+  const sources = article.sources.map(s => `${s.publisher || s.title}: ${s.uri}`).join('\n');
+  return {
+    title: `${article.title} (${modeLabel})`,
+    artist: SHOW_NAME,
+    album: `${SHOW_NAME} - ${article.timestamp}`,
+    date: toDateKey(date),
+    comment: sources ? `${article.summary}\n\nSources:\n${sources}` : article.summary
+  };
+}
+
+/**
+ * Metadata for a whole day's episode, with the story list as show notes.
+ */
+export function dayEpisodeMetadata(articles: NewsArticle[], date: Date): EpisodeMetadata {
+  const dateLabel = date.toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+  return {
+    title: `${SHOW_NAME}: ${dateLabel}`,
+    artist: SHOW_NAME,
+    album: SHOW_NAME,
+    date: toDateKey(date),
+    comment: articles.map((a, i) => `${i + 1}. ${a.title}`).join('\n')
+  };
+}
+
+/**
+ * A filesystem-safe name such as "2025-01-31-central-bank-holds-rates.wav".
+ */
+export function episodeFilename(date: Date, title: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+  return `${toDateKey(date)}-${slug || 'episode'}.wav`;
+}
+
+/**
+ * Saves a Blob through a temporary download link.
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,166 @@
+import { Type } from "@google/genai";
+import { Category } from "../types";
+
+/**
+ * An article as the model is expected to return it, before ids, timestamps
+ * and sources are attached.
+ */
+export interface BriefingItem {
+  title: string;
+  summary: string;
+  category: Category;
+  globalScore: number;
+}
+
+export interface BriefingValidationResult {
+  valid: BriefingItem[];
+  /** Position of each valid item in the original array. */
+  indices: number[];
+  errors: string[];
+}
+
+const CATEGORY_VALUES = Object.values(Category) as string[];
+
+/**
+ * Gemini response schema for a briefing. Search grounding cannot be combined
+ * with JSON mode, so this is only enforced on the repair pass.
+ */
+export const briefingResponseSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      title: { type: Type.STRING },
+      summary: { type: Type.STRING },
+      category: { type: Type.STRING, enum: CATEGORY_VALUES },
+      globalScore: { type: Type.INTEGER }
+    },
+    required: ['title', 'summary', 'category', 'globalScore']
+  }
+};
+
+// Accept 'technology', 'TECH' etc. but nothing outside the enum
+const normalizeCategory = (value: unknown): Category | null => {
+  if (typeof value !== 'string') return null;
+  const needle = value.trim().toLowerCase();
+  const byValue = CATEGORY_VALUES.find(c => c.toLowerCase() === needle);
+  if (byValue) return byValue as Category;
+  const byKey = Object.keys(Category).find(k => k.toLowerCase() === needle);
+  return byKey ? Category[byKey as keyof typeof Category] : null;
+};
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Validates a single item, returning either the cleaned item or a list of
+ * human-readable problems (these are fed back to the model on repair).
+ */
+const validateItem = (raw: unknown, index: number): BriefingItem | string[] => {
+  const label = `Item ${index}`;
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return [`${label}: expected an object`];
+  }
+
+  const item = raw as Record<string, unknown>;
+  const problems: string[] = [];
+
+  if (!isNonEmptyString(item.title)) problems.push(`${label}: "title" must be a non-empty string`);
+  if (!isNonEmptyString(item.summary)) problems.push(`${label}: "summary" must be a non-empty string`);
+
+  const category = normalizeCategory(item.category);
+  if (!category) {
+    problems.push(`${label}: "category" was ${JSON.stringify(item.category)}, must be one of ${CATEGORY_VALUES.join(', ')}`);
+  }
+
+  const score = item.globalScore;
+  if (typeof score !== 'number' || !Number.isInteger(score) || score < 1 || score > 100) {
+    problems.push(`${label}: "globalScore" was ${JSON.stringify(score)}, must be an integer from 1 to 100`);
+  }
+
+  if (problems.length > 0) return problems;
+
+  return {
+    title: (item.title as string).trim(),
+    summary: (item.summary as string).trim(),
+    category: category as Category,
+    globalScore: score as number
+  };
+};
+
+/**
+ * Pulls the JSON array out of a model response, tolerating markdown fences
+ * or stray prose around it.
+ */
+export const extractJsonArray = (text: string): unknown => {
+  const clean = text.replace(/```json/g, '').replace(/```/g, '').trim();
+  const start = clean.indexOf('[');
+  const end = clean.lastIndexOf(']');
+  if (start === -1 || end < start) {
+    throw new Error("Response does not contain a JSON array");
+  }
+  return JSON.parse(clean.slice(start, end + 1));
+};
+
+/**
+ * Validates a raw model response. Valid items are kept even when others fail,
+ * so one malformed entry never discards the rest of the day.
+ */
+export const validateBriefingText = (text: string): BriefingValidationResult => {
+  let data: unknown;
+  try {
+    data = extractJsonArray(text);
+  } catch (e: any) {
+    return { valid: [], indices: [], errors: [`Response is not valid JSON: ${e.message}`] };
+  }
+
+  if (!Array.isArray(data)) {
+    return { valid: [], indices: [], errors: ["Response must be a JSON array of articles"] };
+  }
+
+  const result: BriefingValidationResult = { valid: [], indices: [], errors: [] };
+  data.forEach((raw, index) => {
+    const checked = validateItem(raw, index);
+    if (Array.isArray(checked)) {
+      result.errors.push(...checked);
+    } else {
+      result.valid.push(checked);
+      result.indices.push(index);
+    }
+  });
+  return result;
+};
+
+/**
+ * The title of every item in a raw response, valid or not, in the order the
+ * model wrote them. Items without a usable title give an empty string.
+ */
+export const extractItemTitles = (text: string): string[] => {
+  let data: unknown;
+  try {
+    data = extractJsonArray(text);
+  } catch (e) {
+    return [];
+  }
+  if (!Array.isArray(data)) return [];
+  return data.map(raw => {
+    const title = (raw as Record<string, unknown> | null)?.title;
+    return typeof title === 'string' ? title.trim() : '';
+  });
+};
+
+/**
+ * Merges two sets of validated items, keeping the first occurrence of each title.
+ */
+export const mergeBriefingItems = (existing: BriefingItem[], incoming: BriefingItem[]): BriefingItem[] => {
+  const seen = new Set(existing.map(i => i.title.toLowerCase()));
+  const merged = [...existing];
+  incoming.forEach(item => {
+    const key = item.title.toLowerCase();
+    if (!seen.has(key)) {
+      seen.add(key);
+      merged.push(item);
+    }
+  });
+  return merged;
+};
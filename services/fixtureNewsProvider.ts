@@ -0,0 +1,69 @@
+import { NewsArticle, NewsProvider, NewsSource, Category } from "../types";
+import { toDateKey } from "./geminiService";
+
+const FIXTURE_BASE_URL = '/fixtures/briefings';
+const FIXTURE_FALLBACK = 'default';
+const PAGE_SIZE = 8;
+
+// Shape of an entry in a fixture file. Ids and timestamps are filled in on load.
+interface FixtureArticle {
+  title: string;
+  summary: string;
+  category: Category;
+  globalScore: number;
+  sources?: NewsSource[];
+}
+
+// Null when there is no such fixture; a network error is left to reject, like a failed Gemini request
+const fetchFixtureFile = async (name: string): Promise<FixtureArticle[] | null> => {
+  const res = await fetch(`${FIXTURE_BASE_URL}/${name}.json`);
+  if (!res.ok) return null;
+  // Vite's dev server answers unknown paths with index.html, so check the type too
+  if (!res.headers.get('content-type')?.includes('json')) return null;
+  return await res.json();
+};
+
+/**
+ * Loads every fixture article for a date, falling back to `default.json`
+ * when there is no file for that specific day.
+ */
+const loadFixtureDay = async (date: Date): Promise<NewsArticle[]> => {
+  // The local calendar day, the same one the Gemini provider asks for
+  const dateKey = toDateKey(date);
+  const raw = (await fetchFixtureFile(dateKey)) || (await fetchFixtureFile(FIXTURE_FALLBACK));
+  if (!raw) {
+    console.warn(`No news fixture found for ${dateKey}`);
+    return [];
+  }
+
+  const dateStr = date.toLocaleDateString("en-US", { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+
+  return raw.map((art, index) => ({
+    // Stable ids so read history and caches line up between reloads
+    id: `fixture-${dateKey}-${index}`,
+    title: art.title,
+    summary: art.summary,
+    category: art.category,
+    globalScore: art.globalScore,
+    timestamp: dateStr,
+    sources: art.sources || []
+  }));
+};
+
+/**
+ * Offline NewsProvider that serves briefings from JSON files in
+ * `public/fixtures/briefings/<YYYY-MM-DD>.json`. Useful for development and
+ * demos without an API key. Fixtures are assumed to be suitable for all ages.
+ */
+export const fixtureNewsProvider: NewsProvider = {
+  fetchBriefing: async (date) => {
+    const all = await loadFixtureDay(date);
+    return all.slice(0, PAGE_SIZE);
+  },
+
+  fetchMore: async (date, _ageRange, excludeTitles) => {
+    const all = await loadFixtureDay(date);
+    const excluded = new Set(excludeTitles);
+    return all.filter(a => !excluded.has(a.title)).slice(0, PAGE_SIZE);
+  }
+};
@@ -0,0 +1,71 @@
+import { sessionToken } from "./sessionToken";
+
+/**
+ * Base URL of the Gemini proxy (the API server, see server/apiServer.ts).
+ * When set, the app sends every Gemini request through it and never needs
+ * the API key itself.
+ */
+export const GEMINI_PROXY_URL = process.env.GEMINI_PROXY_URL?.replace(/\/$/, '');
+
+const post = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+  const res = await fetch(`${GEMINI_PROXY_URL}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...sessionToken.authHeaders() },
+    body: JSON.stringify(body),
+    signal
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    // 429 means the user hit their rate limit; the message says when to retry
+    throw Object.assign(new Error(data.error || `Gemini proxy request failed (${res.status})`), { status: res.status });
+  }
+  return res;
+};
+
+export const proxyJson = async <T>(path: string, body: unknown): Promise<T> => {
+  return (await post(path, body)).json();
+};
+
+export const proxyBuffer = async (path: string, body: unknown): Promise<Uint8Array> => {
+  return new Uint8Array(await (await post(path, body)).arrayBuffer());
+};
+
+/**
+ * Yields the response body as it arrives.
+ */
+export async function* proxyBytes(path: string, body: unknown, signal?: AbortSignal): AsyncGenerator<Uint8Array> {
+  const res = await post(path, body, signal);
+  const reader = res.body!.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    yield value;
+  }
+}
+
+/**
+ * Yields each line of a newline-delimited JSON response. A line with an
+ * `error` field means the upstream request failed part way through.
+ */
+export async function* proxyJsonLines<T>(path: string, body: unknown, signal?: AbortSignal): AsyncGenerator<T> {
+  const decoder = new TextDecoder();
+  let buffered = '';
+  const parse = (line: string): T => {
+    const value = JSON.parse(line);
+    if (value.error) throw new Error(value.error);
+    return value;
+  };
+
+  for await (const bytes of proxyBytes(path, body, signal)) {
+    buffered += decoder.decode(bytes, { stream: true });
+    const lines = buffered.split('\n');
+    buffered = lines.pop()!;
+    for (const line of lines) {
+      if (line.trim()) yield parse(line);
+    }
+  }
+  if (buffered.trim()) yield parse(buffered);
+}
+
+/** True if the proxy refused the request because of the rate limit. */
+export const isRateLimitError = (error: unknown) => (error as { status?: number })?.status === 429;
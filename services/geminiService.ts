@@ -1,27 +1,84 @@
-import { GoogleGenAI, Modality, Type } from "@google/genai";
-import { NewsArticle, Category, TTSMode, NewsSource, AgeRange } from "../types";
-import { decodeBase64, decodeAudioData } from "./audioUtils";
+import { GoogleGenAI, GroundingChunk, Modality, SpeechConfig, Type } from "@google/genai";
+import { NewsArticle, TTSMode, AgeRange, NewsProvider, NewsSource, TTSSpeaker, VoiceSettings, ArticleTranslation } from "../types";
+import { concatBytes, decodeBase64, decodeAudioData } from "./audioUtils";
+import { audioCache, getAudioCacheKey } from "./audioCache";
+import { briefingResponseSchema, extractItemTitles, mergeBriefingItems, validateBriefingText } from "./briefingSchema";
+import { attributeSources, sourcesFromChunks } from "./sourceAttribution";
+import { DEFAULT_LANGUAGE, getLanguageName } from "./languages";
+import { GEMINI_PROXY_URL, isRateLimitError, proxyBuffer, proxyBytes, proxyJson, proxyJsonLines } from "./geminiProxy";
 
-const apiKey = process.env.API_KEY;
+// Injected by Vite in the browser (left out when GEMINI_PROXY_URL is set); the API server reads its own env
+const apiKey = process.env.API_KEY || process.env.GEMINI_API_KEY;
 
 // We use a singleton pattern for the client, but re-instantiate if needed for keys
 const getClient = () => new GoogleGenAI({ apiKey });
 
+const MAX_REPAIR_ATTEMPTS = 1;
+
+/**
+ * Asks the model to correct a briefing that failed validation. Runs in JSON
+ * mode with the briefing schema, so no search grounding is used here.
+ */
+const repairBriefingJson = async (ai: GoogleGenAI, previousText: string, errors: string[]): Promise<string> => {
+  const prompt = `
+    The following JSON array of news articles failed validation.
+
+    Errors:
+    ${errors.map(e => `- ${e}`).join('\n')}
+
+    Original output:
+    ${previousText}
+
+    Return the corrected JSON array. Fix only the listed problems and keep every other
+    field unchanged. Drop an item only if it cannot be repaired.
+  `;
+
+  try {
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: briefingResponseSchema,
+      },
+    });
+    return response.text || "[]";
+  } catch (error) {
+    console.error("Briefing repair failed", error);
+    return "[]";
+  }
+};
+
+// The local calendar day, so the proxy fetches the day the user picked whatever its time zone
+export const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
 /**
  * Generates the daily briefing for a specific date.
  * @param targetDate The date to fetch news for.
  * @param ageRange The user's age range for content safety.
  * @param excludeTitles List of article titles to exclude (for pagination/infinite scroll).
+ * Throws if the request fails, so callers can tell a failure from a day with no more stories.
  */
 export const fetchDailyBriefing = async (
     targetDate?: Date, 
     ageRange: AgeRange = AgeRange.ADULT,
     excludeTitles: string[] = []
 ): Promise<NewsArticle[]> => {
-  const ai = getClient();
-  
   // Default to yesterday if not provided
   const dateToFetch = targetDate || new Date(new Date().setDate(new Date().getDate() - 1));
+
+  if (GEMINI_PROXY_URL) {
+    try {
+      return await proxyJson<NewsArticle[]>('/api/gemini/briefing', { date: toDateKey(dateToFetch), ageRange, excludeTitles });
+    } catch (error) {
+      console.error("Error fetching daily briefing:", error);
+      throw error;
+    }
+  }
+
+  const ai = getClient();
+
   const dateStr = dateToFetch.toLocaleDateString("en-US", { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
 
   // Age Appropriateness Logic
@@ -79,53 +136,184 @@ export const fetchDailyBriefing = async (
     });
 
     const text = response.text || "[]";
-    
-    // Clean potential markdown just in case
-    const cleanJson = text.replace(/```json/g, '').replace(/```/g, '').trim();
-    
-    let rawArticles: any[] = [];
-    try {
-        rawArticles = JSON.parse(cleanJson);
-    } catch (e) {
-        console.error("Failed to parse JSON from news generation", text);
-        return [];
+
+    // Validate, then give the model a chance to fix whatever was rejected
+    const initial = validateBriefingText(text);
+    let { valid, errors } = initial;
+    let lastText = text;
+    for (let attempt = 0; errors.length > 0 && attempt < MAX_REPAIR_ATTEMPTS; attempt++) {
+        console.warn(`Briefing failed validation (attempt ${attempt + 1}), requesting repair`, errors);
+        lastText = await repairBriefingJson(ai, lastText, errors);
+        const repaired = validateBriefingText(lastText);
+        valid = mergeBriefingItems(valid, repaired.valid);
+        errors = repaired.errors;
+    }
+
+    if (errors.length > 0) {
+        console.error("Dropping invalid briefing items after repair", errors);
     }
 
-    // Extract grounding sources
-    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-    const webSources: NewsSource[] = groundingChunks
-      .filter((chunk: any) => chunk.web?.uri)
-      .map((chunk: any) => ({
-        title: chunk.web.title || "Source",
-        uri: chunk.web.uri
-      }));
+    // Match each article to the grounding chunks that back it. The supports refer to
+    // `text`, so attribute every item there in its original order, then map back:
+    // items that passed first time by index, repaired ones (merged in after them) by title
+    const rawTitles = extractItemTitles(text);
+    const rawSources = attributeSources(rawTitles, text, response.candidates?.[0]?.groundingMetadata);
+    const sourcesFor = (title: string, index: number): NewsSource[] => {
+      if (index < initial.valid.length) return rawSources[initial.indices[index]] || [];
+      const rawIndex = rawTitles.findIndex(t => t.toLowerCase() === title.toLowerCase());
+      return rawIndex === -1 ? [] : rawSources[rawIndex];
+    };
 
     // Map to domain model
-    return rawArticles.map((art: any, index: number) => ({
+    return valid.map((art, index) => ({
       id: `news-${index}-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
       title: art.title,
       summary: art.summary,
-      category: art.category as Category,
+      category: art.category,
       globalScore: art.globalScore,
       timestamp: dateStr,
-      sources: webSources.slice(0, 3) // Attach generic sources found in grounding to all for this demo
+      sources: sourcesFor(art.title, index)
     }));
 
   } catch (error) {
     console.error("Error fetching daily briefing:", error);
-    return [];
+    throw error;
   }
 };
 
 /**
- * Chat with context of the current article.
+ * NewsProvider backed by Gemini with Google Search grounding.
  */
-export const sendChatMessage = async (
-    history: { role: string; parts: { text: string }[] }[],
+export const geminiNewsProvider: NewsProvider = {
+  fetchBriefing: (date, ageRange) => fetchDailyBriefing(date, ageRange),
+  fetchMore: (date, ageRange, excludeTitles) => fetchDailyBriefing(date, ageRange, excludeTitles)
+};
+
+const translationResponseSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.STRING },
+      title: { type: Type.STRING },
+      summary: { type: Type.STRING }
+    },
+    required: ['id', 'title', 'summary']
+  }
+};
+
+/**
+ * Translates article titles and summaries in one request, keyed by article id.
+ * Articles missing from the response (or all of them, on error) are left out.
+ */
+export const translateArticles = async (
+  articles: NewsArticle[],
+  language: string
+): Promise<Record<string, ArticleTranslation>> => {
+  if (articles.length === 0 || language === DEFAULT_LANGUAGE) return {};
+
+  if (GEMINI_PROXY_URL) {
+    try {
+      return await proxyJson<Record<string, ArticleTranslation>>('/api/gemini/translate', { articles, language });
+    } catch (error) {
+      console.error("Translation failed", error);
+      return {};
+    }
+  }
+
+  const ai = getClient();
+
+  const prompt = `
+    Translate the title and summary of each news article below into ${getLanguageName(language)}.
+    Keep names of people, places and organizations as they are usually written in that language.
+    Return every article with its id unchanged.
+
+    ${JSON.stringify(articles.map(a => ({ id: a.id, title: a.title, summary: a.summary })))}
+  `;
+
+  try {
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: translationResponseSchema,
+      },
+    });
+    const items: { id: string; title: string; summary: string }[] = JSON.parse(response.text || "[]");
+    const ids = new Set(articles.map(a => a.id));
+    const translations: Record<string, ArticleTranslation> = {};
+    items.forEach(item => {
+      if (ids.has(item.id) && item.title && item.summary) {
+        translations[item.id] = { title: item.title, summary: item.summary };
+      }
+    });
+    return translations;
+  } catch (error) {
+    console.error("Translation failed", error);
+    return {};
+  }
+};
+
+export interface ChatStreamOptions {
+  /** Called with the full text received so far each time a chunk arrives. */
+  onText?: (text: string) => void;
+  /** Aborts the request; whatever text already arrived is kept. */
+  signal?: AbortSignal;
+}
+
+export interface ChatStreamResult {
+  text: string;
+  status: 'complete' | 'stopped' | 'error';
+  sources: NewsSource[]; // Search results the answer was grounded in
+}
+
+export interface ChatContext {
+  /** Every story in the day's briefing. */
+  briefing: NewsArticle[];
+  /** The story the user is focused on, if any. */
+  focusedArticle?: NewsArticle | null;
+  /** Language code to answer in; English when unset. */
+  language?: string;
+}
+
+/**
+ * How the assistant links to a story in its answers, e.g. `[story:news-3-...]`.
+ */
+export const STORY_REF_PATTERN = /\[story:([^\]\s]+)\]/g;
+
+const describeBriefing = (briefing: NewsArticle[]): string => {
+  return briefing.map(article => {
+    const sources = article.sources.map(s => s.publisher || s.title).join(', ');
+    return `- id: ${article.id}
+      category: ${article.category}
+      title: ${article.title}
+      summary: ${article.summary}${sources ? `\n      sources: ${sources}` : ''}`;
+  }).join('\n');
+};
+
+export type ChatHistory = { role: string; parts: { text: string }[] }[];
+
+/**
+ * One streamed piece of a chat answer.
+ */
+export interface ChatChunk {
+  text: string;
+  groundingChunks: GroundingChunk[];
+}
+
+/**
+ * Streams an answer straight from Gemini. The app calls `sendChatMessage`,
+ * which goes through the proxy when one is configured.
+ */
+export async function* streamChatResponse(
+    history: ChatHistory,
     userMessage: string,
-    context?: string
-): Promise<string> => {
+    context: ChatContext,
+    signal?: AbortSignal
+): AsyncGenerator<ChatChunk> {
     const ai = getClient();
+    const { briefing, focusedArticle, language } = context;
     
     const systemInstruction = `
       You are a concise, direct news analyst for "Yesterday in Review".
@@ -134,71 +322,286 @@ export const sendChatMessage = async (
       - Answer questions about the news quickly.
       - Be objective and factual.
       - Keep responses short (under 3 sentences) unless asked for deep detail.
+      - Use Google Search to verify facts and answer follow-ups beyond the summaries below.
+      - You can compare stories and explain how they relate to each other.
+      - When you mention a story from the briefing, link it by writing [story:<id>] right after
+        its first mention, using the exact id below. Never invent ids.
+      - Always respond in ${getLanguageName(language)}.
+      
+      Today's Briefing:
+      ${briefing.length > 0 ? describeBriefing(briefing) : "No stories are loaded."}
       
       Current User Context:
-      ${context ? `The user is reading this article: "${context}". Focus answers on this.` : "The user is browsing the general feed."}
+      ${focusedArticle ? `The user is reading this article: "${focusedArticle.title}" (id: ${focusedArticle.id}). Focus answers on this unless asked about other stories.` : "The user is browsing the general feed."}
     `;
 
+    const chat = ai.chats.create({
+        model: "gemini-3-pro-preview",
+        config: {
+            systemInstruction,
+            tools: [{ googleSearch: {} }],
+        },
+        history: history,
+    });
+
+    const stream = await chat.sendMessageStream({
+        message: userMessage,
+        config: { abortSignal: signal }
+    });
+
+    for await (const chunk of stream) {
+        yield {
+            text: chunk.text || "",
+            // Grounding metadata usually arrives with the final chunks
+            groundingChunks: chunk.candidates?.[0]?.groundingMetadata?.groundingChunks || []
+        };
+    }
+}
+
+/**
+ * Chat with the whole day's briefing as context, streaming the answer as it is generated.
+ */
+export const sendChatMessage = async (
+    history: ChatHistory,
+    userMessage: string,
+    context: ChatContext = { briefing: [] },
+    options: ChatStreamOptions = {}
+): Promise<ChatStreamResult> => {
+    const { onText, signal } = options;
+
+    let text = "";
+    const chunks: GroundingChunk[] = [];
     try {
-        const chat = ai.chats.create({
-            model: "gemini-3-pro-preview",
-            config: { systemInstruction },
-            history: history,
-        });
-
-        const result = await chat.sendMessage({ message: userMessage });
-        return result.text || "I couldn't process that request.";
+        const stream = GEMINI_PROXY_URL
+            ? proxyJsonLines<ChatChunk>('/api/gemini/chat', { history, message: userMessage, context }, signal)
+            : streamChatResponse(history, userMessage, context, signal);
+
+        for await (const chunk of stream) {
+            if (signal?.aborted) break;
+            text += chunk.text;
+            chunks.push(...chunk.groundingChunks);
+            onText?.(text);
+        }
+
+        const sources = sourcesFromChunks(chunks);
+        if (signal?.aborted) return { text, status: 'stopped', sources };
+        return { text: text || "I couldn't process that request.", status: 'complete', sources };
     } catch (error) {
+        const sources = sourcesFromChunks(chunks);
+        if (signal?.aborted) return { text, status: 'stopped', sources };
         console.error("Chat error", error);
-        return "Connection error.";
+        // Keep whatever arrived before the stream broke
+        const fallback = isRateLimitError(error) ? (error as Error).message : "Connection error.";
+        return { text: text || fallback, status: 'error', sources };
     }
 };
 
 /**
- * Generates audio for a specific article based on mode.
+ * Gemini's prebuilt TTS voices with their described style.
  */
-export const generateNewsAudio = async (
+export const PREBUILT_VOICES: { name: string; style: string }[] = [
+  { name: 'Zephyr', style: 'Bright' },
+  { name: 'Puck', style: 'Upbeat' },
+  { name: 'Charon', style: 'Informative' },
+  { name: 'Kore', style: 'Firm' },
+  { name: 'Fenrir', style: 'Excitable' },
+  { name: 'Leda', style: 'Youthful' },
+  { name: 'Orus', style: 'Firm' },
+  { name: 'Aoede', style: 'Breezy' },
+  { name: 'Callirrhoe', style: 'Easy-going' },
+  { name: 'Autonoe', style: 'Bright' },
+  { name: 'Enceladus', style: 'Breathy' },
+  { name: 'Iapetus', style: 'Clear' },
+  { name: 'Umbriel', style: 'Easy-going' },
+  { name: 'Algieba', style: 'Smooth' },
+  { name: 'Despina', style: 'Smooth' },
+  { name: 'Erinome', style: 'Clear' },
+  { name: 'Algenib', style: 'Gravelly' },
+  { name: 'Rasalgethi', style: 'Informative' },
+  { name: 'Laomedeia', style: 'Upbeat' },
+  { name: 'Achernar', style: 'Soft' },
+  { name: 'Alnilam', style: 'Firm' },
+  { name: 'Schedar', style: 'Even' },
+  { name: 'Gacrux', style: 'Mature' },
+  { name: 'Pulcherrima', style: 'Forward' },
+  { name: 'Achird', style: 'Friendly' },
+  { name: 'Zubenelgenubi', style: 'Casual' },
+  { name: 'Vindemiatrix', style: 'Gentle' },
+  { name: 'Sadachbia', style: 'Lively' },
+  { name: 'Sadaltager', style: 'Knowledgeable' },
+  { name: 'Sulafat', style: 'Warm' }
+];
+
+// Speakers per mode, in speaker order: PODCAST is (host, guest), DEBATE is (for, against, moderator)
+export const DEFAULT_TTS_SPEAKERS: Record<TTSMode, TTSSpeaker[]> = {
+  [TTSMode.READ]: [{ name: 'Anchor', voice: 'Fenrir' }], // Deep, news anchor like
+  [TTSMode.PODCAST]: [{ name: 'Alex', voice: 'Puck' }, { name: 'Sam', voice: 'Kore' }],
+  [TTSMode.STORYTELLER]: [{ name: 'Narrator', voice: 'Charon' }],
+  [TTSMode.EXPLAINER]: [{ name: 'Explainer', voice: 'Sadaltager' }],
+  // Two debaters share one request; the moderator is generated separately
+  [TTSMode.DEBATE]: [{ name: 'Jordan', voice: 'Orus' }, { name: 'Riley', voice: 'Aoede' }, { name: 'Moderator', voice: 'Schedar' }],
+  [TTSMode.KIDS]: [{ name: 'Pip', voice: 'Leda' }]
+};
+
+/**
+ * The speakers a mode uses, preferring the user's choices.
+ */
+export const getTTSSpeakers = (mode: TTSMode, settings?: VoiceSettings): TTSSpeaker[] => {
+  const defaults = DEFAULT_TTS_SPEAKERS[mode];
+  const chosen = settings?.[mode];
+  // Ignore saved settings that don't match the mode's speaker count
+  return chosen && chosen.length === defaults.length ? chosen : defaults;
+};
+
+/**
+ * Identifies the voice(s) a mode speaks with, e.g. for audio cache keys.
+ * Multi-speaker keys include host names, since the script uses them.
+ */
+export const getTTSVoiceKey = (mode: TTSMode, settings?: VoiceSettings): string => {
+  const speakers = getTTSSpeakers(mode, settings);
+  return speakers.map(s => speakers.length > 1 ? `${s.name}:${s.voice}` : s.voice).join('+');
+};
+
+// Audio in another language is cached as a clip of its own
+const getAudioArticleId = (articleId: string, language?: string) =>
+  language && language !== DEFAULT_LANGUAGE ? `${articleId}@${language}` : articleId;
+
+/**
+ * Returns the audio cache key for an article in a mode.
+ */
+export const getNewsAudioCacheKey = (articleId: string, mode: TTSMode, settings?: VoiceSettings, language?: string): string =>
+  getAudioCacheKey(getAudioArticleId(articleId, language), mode, getTTSVoiceKey(mode, settings));
+
+const singleVoiceConfig = (speaker: TTSSpeaker): SpeechConfig => ({
+  voiceConfig: { prebuiltVoiceConfig: { voiceName: speaker.voice } }
+});
+
+const twoVoiceConfig = (first: TTSSpeaker, second: TTSSpeaker): SpeechConfig => ({
+  multiSpeakerVoiceConfig: {
+    speakerVoiceConfigs: [
+      { speaker: first.name, voiceConfig: { prebuiltVoiceConfig: { voiceName: first.voice } } },
+      { speaker: second.name, voiceConfig: { prebuiltVoiceConfig: { voiceName: second.voice } } }
+    ]
+  }
+});
+
+export interface NewsAudioOptions {
+  /** The user's voice choices; modes they haven't set use the defaults. */
+  voiceSettings?: VoiceSettings;
+  /** Language code to speak in; the article should already be translated. */
+  language?: string;
+  /** Called with each decoded chunk, in order, as soon as it arrives. */
+  onChunk?: (chunk: AudioBuffer) => void;
+  /** Aborts generation; partial audio is not cached. */
+  signal?: AbortSignal;
+}
+
+export type NewsAudioRequest = Pick<NewsAudioOptions, 'voiceSettings' | 'language' | 'signal'>;
+
+/**
+ * Streams raw PCM (24kHz 16-bit mono) for an article straight from Gemini;
+ * chunks may split a sample. The app calls `generateNewsAudio`, which goes
+ * through the proxy when one is configured and caches the result.
+ */
+export async function* streamNewsAudioPcm(
   article: NewsArticle,
   mode: TTSMode,
-  audioContext: AudioContext
-): Promise<AudioBuffer | null> => {
+  options: NewsAudioRequest = {}
+): AsyncGenerator<Uint8Array> {
   const ai = getClient();
+  const speakers = getTTSSpeakers(mode, options.voiceSettings);
+  const isEnglish = !options.language || options.language === DEFAULT_LANGUAGE;
+  const languageName = getLanguageName(options.language);
 
-  let textToSay = "";
-  let config: any = {
-    responseModalities: [Modality.AUDIO],
-  };
+  // Most modes are one request; DEBATE adds a moderator, which needs a third voice
+  const segments: { text: string; speechConfig: SpeechConfig }[] = [];
 
   // Prepare content based on mode
   if (mode === TTSMode.READ) {
-    textToSay = `Here is the summary for: ${article.title}. ${article.summary}`;
-    config.speechConfig = {
-      voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Fenrir' } } // Deep, news anchor like
-    };
+    segments.push({
+      text: isEnglish
+        ? `Here is the summary for: ${article.title}. ${article.summary}`
+        : `Read this news summary aloud in ${languageName}: ${article.title}. ${article.summary}`,
+      speechConfig: singleVoiceConfig(speakers[0])
+    });
   } else if (mode === TTSMode.PODCAST) {
     // Podcast: Lively, unscripted banter with a twist.
-    textToSay = `
-      Generate a candid, unscripted-style conversation between two podcasters, Alex and Sam.
+    const [host, guest] = speakers;
+    segments.push({
+      text: `
+      Generate a candid, unscripted-style conversation between two podcasters, ${host.name} and ${guest.name}.
       Topic: "${article.title}".
       
       Instructions:
       1. Do NOT just read the news summary.
-      2. Alex (Host) sets the stage quickly.
-      3. Sam (Guest) offers a "hot take", a surprising angle, or points out an irony in the situation.
+      2. ${host.name} (Host) sets the stage quickly.
+      3. ${guest.name} (Guest) offers a "hot take", a surprising angle, or points out an irony in the situation.
       4. The tone should be energetic and slightly opinionated on all directions but factual. 
       5. Keep it under 1 minute.
-    `;
-    config.speechConfig = {
-      multiSpeakerVoiceConfig: {
-        speakerVoiceConfigs: [
-          { speaker: 'Alex', voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Puck' } } },
-          { speaker: 'Sam', voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } }
-        ]
-      }
-    };
+    `,
+      speechConfig: twoVoiceConfig(host, guest)
+    });
+  } else if (mode === TTSMode.EXPLAINER) {
+    // Explainer: Background and why it matters.
+    segments.push({
+      text: `
+      Explain this news story to a curious listener who hasn't been following it.
+      Story: "${article.title}: ${article.summary}"
+      
+      Instructions:
+      1. Start with one sentence on what happened.
+      2. Give the background: how we got here and who the key players are.
+      3. End with "why it matters": what could change and who it affects.
+      4. Use a calm, clear, teacher-like tone and avoid jargon.
+      5. Keep it under 1 minute.
+    `,
+      speechConfig: singleVoiceConfig(speakers[0])
+    });
+  } else if (mode === TTSMode.DEBATE) {
+    // Debate: Two sides argue, then a neutral moderator wraps up.
+    const [pro, con, moderator] = speakers;
+    segments.push({
+      text: `
+      Generate a short, civil debate between ${pro.name} and ${con.name}.
+      Motion: "${article.title}" (${article.summary})
+      
+      Instructions:
+      1. ${pro.name} argues that this development is good news or the right call.
+      2. ${con.name} argues the opposite side.
+      3. Each speaks twice, responding to the other's strongest point.
+      4. Stick to facts and reasonable arguments; no personal attacks.
+      5. Keep it under 1 minute.
+    `,
+      speechConfig: twoVoiceConfig(pro, con)
+    });
+    segments.push({
+      text: `
+      As ${moderator.name}, a neutral debate moderator, wrap up a debate about: "${article.title}".
+      In two or three sentences, fairly summarize the strongest argument on each side and the open question listeners should think about.
+      Do not pick a winner.
+    `,
+      speechConfig: singleVoiceConfig(moderator)
+    });
+  } else if (mode === TTSMode.KIDS) {
+    // Kids' Corner: Simple, friendly, reassuring.
+    segments.push({
+      text: `
+      Explain this news story for kids aged 7 to 12.
+      Story: "${article.title}: ${article.summary}"
+      
+      Instructions:
+      1. Use short sentences and everyday words.
+      2. Compare anything complicated to something from a kid's life.
+      3. Be warm and upbeat; if the news is sad or scary, be gentle and reassuring.
+      4. End with a fun fact or a question to talk about with family.
+      5. Keep it under 45 seconds.
+    `,
+      speechConfig: singleVoiceConfig(speakers[0])
+    });
   } else {
     // Storyteller: Dramatic narrative twist.
-    textToSay = `
+    segments.push({
+      text: `
       Reimagine this news event as a scene from a dramatic story or movie.
       Event: "${article.title}: ${article.summary}"
       
@@ -208,29 +611,157 @@ export const generateNewsAudio = async (
       3. Create tension and narrative flow.
       4. Narrate it like a campfire tale, a sci-fi log, or a noir thriller depending on the vibe of the news.
       5. Keep it immersive and under 45 seconds.
-    `;
-    config.speechConfig = {
-      voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Charon' } }
-    };
+    `,
+      speechConfig: singleVoiceConfig(speakers[0])
+    });
   }
 
-  try {
-    const response = await ai.models.generateContent({
+  // Segments play back to back, so they're generated in order
+  for (const segment of segments) {
+    // Scripted modes improvise from instructions, so tell them which language to speak
+    const text = isEnglish || mode === TTSMode.READ ? segment.text : `${segment.text}\n      Speak entirely in ${languageName}.`;
+    const stream = await ai.models.generateContentStream({
       model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: textToSay }] }],
-      config: config
+      contents: [{ parts: [{ text }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: segment.speechConfig,
+        abortSignal: options.signal
+      }
     });
 
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!base64Audio) throw new Error("No audio data returned");
+    for await (const chunk of stream) {
+      const base64Audio = chunk.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      if (base64Audio) yield decodeBase64(base64Audio);
+    }
+  }
+}
+
+/**
+ * Generates audio for a specific article based on mode.
+ * The response is streamed so playback can start on the first chunk; the
+ * complete clip is returned once generation finishes.
+ * Raw PCM is cached in IndexedDB, so repeat plays skip the TTS model.
+ */
+export const generateNewsAudio = async (
+  article: NewsArticle,
+  mode: TTSMode,
+  audioContext: AudioContext,
+  options: NewsAudioOptions = {}
+): Promise<AudioBuffer | null> => {
+  const voiceKey = getTTSVoiceKey(mode, options.voiceSettings);
+  const audioId = getAudioArticleId(article.id, options.language);
+  const cached = await audioCache.get(getAudioCacheKey(audioId, mode, voiceKey));
+  if (cached) {
+    const buffer = await decodeAudioData(cached, audioContext);
+    options.onChunk?.(buffer);
+    return buffer;
+  }
+
+  try {
+    const parts: Uint8Array[] = [];
+    // Chunks can split a 16-bit sample, so an odd trailing byte waits for the next one
+    let carry = new Uint8Array(0);
+
+    const { voiceSettings, language, signal } = options;
+    const stream = GEMINI_PROXY_URL
+      ? proxyBytes('/api/gemini/tts', { article, mode, voiceSettings, language }, signal)
+      : streamNewsAudioPcm(article, mode, options);
+
+    for await (const bytes of stream) {
+      parts.push(bytes);
+      if (options.onChunk) {
+        const pending = concatBytes([carry, bytes]);
+        const evenLength = pending.length - (pending.length % 2);
+        carry = pending.slice(evenLength);
+        if (evenLength > 0) {
+          options.onChunk(await decodeAudioData(pending.slice(0, evenLength), audioContext));
+        }
+      }
+    }
+    if (parts.length === 0) throw new Error("No audio data returned");
+
+    const pcm = concatBytes(parts);
+    await audioCache.put(audioId, mode, voiceKey, pcm);
 
-    return await decodeAudioData(
-      decodeBase64(base64Audio),
-      audioContext
-    );
+    return await decodeAudioData(pcm, audioContext);
 
   } catch (error) {
+    if (options.signal?.aborted) return null;
     console.error("TTS generation error:", error);
     return null;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Transcribes a recorded voice question so it can be sent through the normal chat flow.
+ */
+export const transcribeAudio = async (base64Audio: string, mimeType: string): Promise<string | null> => {
+  if (GEMINI_PROXY_URL) {
+    try {
+      return (await proxyJson<{ text: string | null }>('/api/gemini/transcribe', { audio: base64Audio, mimeType })).text;
+    } catch (error) {
+      console.error("Transcription error:", error);
+      return null;
+    }
+  }
+
+  const ai = getClient();
+
+  try {
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: [{
+        parts: [
+          { inlineData: { data: base64Audio, mimeType } },
+          { text: "Transcribe this spoken question exactly as said. Return only the transcript, with no commentary. If nothing intelligible was said, return an empty string." }
+        ]
+      }]
+    });
+    return response.text?.trim() || null;
+  } catch (error) {
+    console.error("Transcription error:", error);
+    return null;
+  }
+};
+
+/**
+ * Raw PCM for a line of speech, straight from Gemini. The app calls
+ * `generateSpeechAudio`, which goes through the proxy when one is configured.
+ */
+export const generateSpeechPcm = async (text: string, voiceName = 'Kore'): Promise<Uint8Array> => {
+  const ai = getClient();
+  const response = await ai.models.generateContent({
+    model: "gemini-2.5-flash-preview-tts",
+    contents: [{ parts: [{ text: `Say in a clear, friendly tone: ${text}` }] }],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: {
+        voiceConfig: { prebuiltVoiceConfig: { voiceName } }
+      }
+    }
+  });
+
+  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  if (!base64Audio) throw new Error("No audio data returned");
+  return decodeBase64(base64Audio);
+};
+
+/**
+ * Speaks an assistant reply (or a voice preview line) aloud.
+ */
+export const generateSpeechAudio = async (
+  text: string,
+  audioContext: AudioContext,
+  voiceName = 'Kore'
+): Promise<AudioBuffer | null> => {
+  try {
+    const pcm = GEMINI_PROXY_URL
+      ? await proxyBuffer('/api/gemini/speech', { text, voiceName })
+      : await generateSpeechPcm(text, voiceName);
+    return await decodeAudioData(pcm, audioContext);
+  } catch (error) {
+    console.error("Reply speech error:", error);
+    return null;
+  }
+};
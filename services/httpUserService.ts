@@ -0,0 +1,251 @@
+import { User, Feedback, NewsArticle, ChatThread, VoiceSettings, ArticleTranslation, SignupData, UserService, SessionInfo, ProfileChanges, AgeRange } from "../types";
+import { sessionToken } from "./sessionToken";
+import { localUserService } from "./localUserService";
+import { addReadArticle, applyInterestDelta, applyOnboarding, resetInterests } from "./userRecords";
+import { SESSION_REFRESH_INTERVAL_MS } from "./sessionRecords";
+
+const API_URL = (process.env.API_URL || 'http://localhost:4100').replace(/\/$/, '');
+
+// Held a token that never expired, before sessions; the server no longer accepts those
+const LEGACY_KEY_TOKEN = 'yir_api_token';
+
+interface AuthResponse {
+  user: User;
+  token: string;
+  session: SessionInfo;
+}
+
+// The signed-in user as last sent by the server, with our own edits applied on top
+let currentUser: User | null = null;
+let currentSessionId: string | null = null;
+let refreshTimer: ReturnType<typeof setInterval> | undefined;
+
+const request = async <T>(path: string, method = 'GET', body?: unknown): Promise<T> => {
+  const token = sessionToken.get();
+  const res = await fetch(`${API_URL}${path}`, {
+    method,
+    headers: {
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      ...(token ? { Authorization: `Bearer ${token}` } : {})
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined
+  });
+  if (res.status === 204) return undefined as T;
+  const data = await res.json().catch(() => ({}));
+  // The session expired or was revoked elsewhere. A token another tab has since refreshed doesn't count
+  if (res.status === 401 && currentUser && token === sessionToken.get()) endSession();
+  if (!res.ok) {
+    throw Object.assign(new Error(data.error || `Request failed (${res.status})`), { status: res.status });
+  }
+  return data as T;
+};
+
+/**
+ * Writes in the background. The local copy is already updated, so a failure
+ * is logged rather than shown; the server catches up on the next change.
+ */
+const send = (path: string, method: string, body?: unknown) => {
+  request(path, method, body).catch(e => console.error(`${method} ${path} failed`, e));
+};
+
+/**
+ * Copies the user's briefings from the server into the local cache, so
+ * `getDailyBriefing` can stay synchronous.
+ */
+const pullBriefings = async (userId: string) => {
+  try {
+    const briefings = await request<Record<string, NewsArticle[]>>('/api/briefings');
+    Object.entries(briefings).forEach(([dateKey, articles]) => {
+      localUserService.saveDailyBriefing(userId, dateKey, articles);
+    });
+  } catch (e) {
+    console.error("Failed to load briefings from the server", e);
+  }
+};
+
+const applySession = ({ user, token, session }: AuthResponse) => {
+  sessionToken.set(token, session.expiresAt, session.rememberMe);
+  currentUser = user;
+  currentSessionId = session.id;
+};
+
+const endSession = () => {
+  clearInterval(refreshTimer);
+  sessionToken.clear();
+  currentUser = null;
+  currentSessionId = null;
+};
+
+/**
+ * Swaps the token for a fresh one with a later expiry. The server refuses if
+ * the session has expired or been revoked, which signs us out.
+ */
+const refreshSession = async () => {
+  try {
+    applySession(await request<AuthResponse>('/api/sessions/refresh', 'POST'));
+  } catch (e: any) {
+    if (e.status !== 401) console.error("Failed to refresh session", e);
+  }
+};
+
+const startSession = async (auth: AuthResponse): Promise<User> => {
+  applySession(auth);
+  clearInterval(refreshTimer);
+  refreshTimer = setInterval(refreshSession, SESSION_REFRESH_INTERVAL_MS);
+  await pullBriefings(auth.user.id);
+  return structuredClone(auth.user);
+};
+
+const updateCurrentUser = (userId: string, apply: (user: User) => void): User | null => {
+  if (!currentUser || currentUser.id !== userId) return null;
+  apply(currentUser);
+  return structuredClone(currentUser);
+};
+
+/**
+ * Keeps accounts, read history, feedback and briefings on the API server
+ * (`npm run api`). Used when USER_BACKEND=http. Chat history and translations
+ * stay in this browser.
+ */
+export const httpUserService: UserService = {
+  init: async () => {
+    localStorage.removeItem(LEGACY_KEY_TOKEN);
+    if (!sessionToken.get()) {
+      sessionToken.clear();
+      return;
+    }
+    try {
+      await startSession(await request<AuthResponse>('/api/sessions/refresh', 'POST'));
+    } catch (e: any) {
+      if (e.status === 401) {
+        sessionToken.clear();
+      } else {
+        console.error("Failed to restore session", e);
+      }
+    }
+  },
+
+  login: async (identifier: string, password?: string, rememberMe = false) => {
+    return startSession(await request<AuthResponse>('/api/login', 'POST', { identifier, password, rememberMe }));
+  },
+
+  signup: async ({ username, email, password, ageRange }: SignupData, rememberMe = false) => {
+    return startSession(await request<AuthResponse>('/api/signup', 'POST', { username, email, password, ageRange, rememberMe }));
+  },
+
+  loginWithIdToken: async (idToken: string, nonce: string, rememberMe = false) => {
+    return startSession(await request<AuthResponse>('/api/oidc/login', 'POST', { idToken, nonce, rememberMe }));
+  },
+
+  logout: () => {
+    if (sessionToken.get()) send('/api/logout', 'POST');
+    endSession();
+  },
+
+  getCurrentUser: () => {
+    // Covers a tab that slept through its refreshes
+    if (currentUser && !sessionToken.get()) endSession();
+    return currentUser ? structuredClone(currentUser) : null;
+  },
+
+  getSessions: () => request<SessionInfo[]>('/api/sessions'),
+
+  revokeSession: async (sessionId: string) => {
+    await request(`/api/sessions/${encodeURIComponent(sessionId)}`, 'DELETE');
+    if (sessionId === currentSessionId) endSession();
+  },
+
+  revokeOtherSessions: async () => {
+    await request('/api/sessions', 'DELETE');
+  },
+
+  completeOnboarding: (userId: string, selectedCategories: string[]) => {
+    const user = updateCurrentUser(userId, u => applyOnboarding(u, selectedCategories));
+    if (user) send('/api/me/onboarding', 'POST', { categories: selectedCategories });
+    return user;
+  },
+
+  updateInterests: (userId: string, category: string, delta: number) => {
+    const user = updateCurrentUser(userId, u => applyInterestDelta(u, category, delta));
+    if (user) send('/api/me/interests', 'POST', { category, delta });
+    return user;
+  },
+
+  updateVoiceSettings: (userId: string, voiceSettings: VoiceSettings) => {
+    const user = updateCurrentUser(userId, u => { u.voiceSettings = voiceSettings; });
+    if (user) send('/api/me', 'PATCH', { voiceSettings });
+    return user;
+  },
+
+  updatePreferredLanguage: (userId: string, language: string) => {
+    const user = updateCurrentUser(userId, u => { u.preferredLanguage = language; });
+    if (user) send('/api/me', 'PATCH', { preferredLanguage: language });
+    return user;
+  },
+
+  updateProfile: async (_userId: string, changes: ProfileChanges) => {
+    currentUser = await request<User>('/api/me', 'PATCH', changes);
+    return structuredClone(currentUser);
+  },
+
+  changePassword: async (_userId: string, currentPassword: string, newPassword: string) => {
+    await request('/api/me/password', 'POST', { currentPassword, newPassword });
+    if (currentUser) currentUser.hasPassword = true;
+  },
+
+  requestAgeRangeChange: async (_userId: string, ageRange: AgeRange) => {
+    currentUser = await request<User>('/api/me/age-range', 'POST', { ageRange });
+    return structuredClone(currentUser);
+  },
+
+  resetInterests: (userId: string) => {
+    const user = updateCurrentUser(userId, resetInterests);
+    if (user) send('/api/me/interests/reset', 'POST');
+    return user;
+  },
+
+  deleteAccount: async (userId: string, password: string) => {
+    await request('/api/me', 'DELETE', { password });
+    // The local copies of briefings and chat history go too
+    localUserService.deleteUserData(userId);
+    endSession();
+  },
+
+  addToHistory: (userId: string, articleId: string) => {
+    if (currentUser?.id === userId && addReadArticle(currentUser, articleId)) {
+      send('/api/me/history', 'POST', { articleId });
+    }
+  },
+
+  submitFeedback: async ({ articleId, type, value }: Omit<Feedback, 'id' | 'timestamp'>) => {
+    await request('/api/feedback', 'POST', { articleId, type, value });
+    return true;
+  },
+
+  getDailyBriefing: (userId: string, dateStr: string) => localUserService.getDailyBriefing(userId, dateStr),
+
+  saveDailyBriefing: (userId: string, dateStr: string, articles: NewsArticle[]) => {
+    localUserService.saveDailyBriefing(userId, dateStr, articles);
+    // Guest briefings only live in this browser
+    if (currentUser?.id === userId) send(`/api/briefings/${dateStr}`, 'PUT', articles);
+  },
+
+  // Only the local copies; the server keeps its own
+  clearCachedBriefings: () => localUserService.clearCachedBriefings(),
+
+  getTranslations: (language: string, articleIds: string[]) => localUserService.getTranslations(language, articleIds),
+
+  saveTranslations: (language: string, byArticleId: Record<string, ArticleTranslation>) => {
+    localUserService.saveTranslations(language, byArticleId);
+  },
+
+  getChatThreadId: (userId: string, dateStr: string, articleId?: string) => {
+    return localUserService.getChatThreadId(userId, dateStr, articleId);
+  },
+
+  getChatThread: (threadId: string) => localUserService.getChatThread(threadId),
+
+  getChatThreads: (userId: string) => localUserService.getChatThreads(userId),
+
+  saveChatThread: (thread: Omit<ChatThread, 'updatedAt'>) => localUserService.saveChatThread(thread)
+};
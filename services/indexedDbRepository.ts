@@ -0,0 +1,78 @@
+import { STORE_NAMES, StorageRepository, StoreName, StoreRecords } from "./storageRepository";
+
+const DB_NAME = 'yir_data';
+const DB_VERSION = 2; // 2 added sessions
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        // Out-of-line keys: the key is passed with each put
+        STORE_NAMES.forEach(name => {
+          if (!request.result.objectStoreNames.contains(name)) {
+            request.result.createObjectStore(name);
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+/**
+ * Runs a write and resolves once the transaction commits. Quota errors only
+ * surface when the transaction aborts, not on the request itself.
+ */
+const write = async (store: StoreName, fn: (objectStore: IDBObjectStore) => void): Promise<void> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, 'readwrite');
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error);
+    tx.onerror = () => reject(tx.error);
+    fn(tx.objectStore(store));
+  });
+};
+
+/**
+ * One IndexedDB object store per collection, one record per key, so a write
+ * only touches the record that changed.
+ */
+export const createIndexedDbRepository = (): StorageRepository => ({
+  name: 'IndexedDB',
+
+  getAll: async <S extends StoreName>(store: S) => {
+    const db = await openDb();
+    const objectStore = db.transaction(store, 'readonly').objectStore(store);
+    const [keys, values] = await Promise.all([
+      promisify(objectStore.getAllKeys()),
+      promisify(objectStore.getAll())
+    ]);
+    const records: Record<string, StoreRecords[S]> = {};
+    keys.forEach((key, i) => {
+      records[String(key)] = values[i];
+    });
+    return records;
+  },
+
+  put: (store, key, value) => write(store, objectStore => { objectStore.put(value, key); }),
+
+  delete: (store, key) => write(store, objectStore => { objectStore.delete(key); }),
+
+  clear: (store) => write(store, objectStore => { objectStore.clear(); })
+});
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
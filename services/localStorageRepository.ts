@@ -0,0 +1,61 @@
+import { Feedback } from "../types";
+import { StorageRepository, StoreName, StoreRecords } from "./storageRepository";
+
+/**
+ * The original localStorage keys. Each holds a whole store as one JSON blob.
+ */
+export const LEGACY_STORAGE_KEYS: Record<StoreName, string> = {
+  users: 'yir_users',
+  feedback: 'yir_feedback',
+  briefings: 'yir_briefings',
+  chats: 'yir_chats',
+  translations: 'yir_translations',
+  sessions: 'yir_sessions'
+};
+
+const readBlob = (store: StoreName): Record<string, unknown> => {
+  const str = localStorage.getItem(LEGACY_STORAGE_KEYS[store]);
+  if (!str) return {};
+  const parsed = JSON.parse(str);
+  // Feedback was always stored as an array
+  if (store === 'feedback' && Array.isArray(parsed)) {
+    const byId: Record<string, Feedback> = {};
+    parsed.forEach((fb: Feedback, i: number) => {
+      byId[byId[fb.id] ? `${fb.id}-${i}` : fb.id] = fb;
+    });
+    return byId;
+  }
+  return parsed;
+};
+
+const writeBlob = (store: StoreName, records: Record<string, unknown>) => {
+  const value = store === 'feedback' ? Object.values(records) : records;
+  localStorage.setItem(LEGACY_STORAGE_KEYS[store], JSON.stringify(value));
+};
+
+/**
+ * Stores data in the same localStorage blobs the app has always used, so it
+ * reads existing data as-is. Every write rewrites the whole store, and
+ * localStorage is limited to a few MB, so IndexedDB is preferred when available.
+ */
+export const createLocalStorageRepository = (): StorageRepository => ({
+  name: 'localStorage',
+
+  getAll: async <S extends StoreName>(store: S) => readBlob(store) as Record<string, StoreRecords[S]>,
+
+  put: async (store, key, value) => {
+    const records = readBlob(store);
+    records[key] = value;
+    writeBlob(store, records);
+  },
+
+  delete: async (store, key) => {
+    const records = readBlob(store);
+    delete records[key];
+    writeBlob(store, records);
+  },
+
+  clear: async (store) => {
+    localStorage.removeItem(LEGACY_STORAGE_KEYS[store]);
+  }
+});
@@ -0,0 +1,415 @@
+import { User, Feedback, NewsArticle, AgeRange, ChatThread, VoiceSettings, ArticleTranslation, SignupData, Session, SessionInfo, ProfileChanges } from "../types";
+import { hashPassword, verifyPassword } from "./passwordHash";
+import { storage } from "./storage";
+import { sessionToken } from "./sessionToken";
+import { getOidcConfig, verifyIdToken } from "./oidc";
+import { addReadArticle, applyAgeRangeRequest, applyInterestDelta, applyOnboarding, applyProfileChanges, approveAgeRangeRequest, assertAvailable, createOidcUserRecord, createUserRecord, findByIdentifier, linkOidcIdentity, resetInterests } from "./userRecords";
+import { createSessionRecord, findSessionByToken, isRefreshDue, isSessionExpired, listUserSessions, touchSession } from "./sessionRecords";
+
+// Held the signed-in user id, with no expiry, before sessions
+const LEGACY_KEY_CURRENT = 'yir_current_user';
+
+// Found from the stored token by `init`, so `getCurrentUser` can stay synchronous
+let currentSessionId: string | null = null;
+
+const getUsers = (): Record<string, User> => storage.getAll('users');
+
+const getSessions = (): Session[] => Object.values(storage.getAll('sessions'));
+
+const saveUser = (user: User) => storage.put('users', user.id, user);
+
+const getBriefingKey = (userId: string, dateStr: string) => `${userId}_${dateStr}`;
+
+const getTranslationKey = (language: string, articleId: string) => `${language}_${articleId}`;
+
+const startSession = async (user: User, rememberMe: boolean) => {
+  // Expired sessions are only ever tidied up here
+  getSessions().filter(s => isSessionExpired(s)).forEach(s => storage.delete('sessions', s.id));
+
+  const { session, token } = await createSessionRecord(user.id, rememberMe, navigator.userAgent);
+  storage.put('sessions', session.id, session);
+  sessionToken.set(token, session.expiresAt, rememberMe);
+  currentSessionId = session.id;
+};
+
+const endSession = () => {
+  if (currentSessionId) storage.delete('sessions', currentSessionId);
+  sessionToken.clear();
+  currentSessionId = null;
+};
+
+const getStoredUser = (userId: string): User => {
+  const user = storage.get('users', userId);
+  if (!user) throw new Error("Account not found");
+  return user;
+};
+
+// Accounts from identity provider sign-in may have no password to check
+const assertPassword = async (user: User, password: string, message: string) => {
+  if (user.password && !(await verifyPassword(password, user.password)).valid) throw new Error(message);
+};
+
+/**
+ * The signed-in session, refreshed if it's due. Ends it if it has expired or
+ * was revoked.
+ */
+const getCurrentSession = (): Session | null => {
+  if (!currentSessionId) return null;
+  const session = storage.get('sessions', currentSessionId);
+  if (!session || isSessionExpired(session)) {
+    endSession();
+    return null;
+  }
+  if (isRefreshDue(session)) {
+    touchSession(session);
+    storage.put('sessions', session.id, session);
+    sessionToken.extend(session.expiresAt);
+  }
+  return session;
+};
+
+/**
+ * Keeps everything in this browser. Used unless USER_BACKEND=http.
+ */
+export const localUserService = {
+  init: async () => {
+    // Those users sign in again, this time with a session that expires
+    localStorage.removeItem(LEGACY_KEY_CURRENT);
+
+    const token = sessionToken.get();
+    const session = token ? await findSessionByToken(getSessions(), token) : undefined;
+    if (session) {
+      currentSessionId = session.id;
+    } else {
+      sessionToken.clear();
+    }
+  },
+
+  login: async (identifier: string, password?: string, rememberMe = false): Promise<User> => {
+    await new Promise(r => setTimeout(r, 800)); // Simulate net lag
+    
+    const users = getUsers();
+    
+    // Find by username or email
+    const user = findByIdentifier(Object.values(users), identifier);
+    if (!user) throw new Error("Invalid credentials");
+
+    const { valid, needsRehash } = await verifyPassword(password || "", user.password);
+    if (!valid) throw new Error("Invalid credentials");
+    // Accounts from before PBKDF2 (or with fewer iterations) are upgraded now that we have the password
+    if (needsRehash) {
+      user.password = await hashPassword(password || "");
+      saveUser(user);
+    }
+
+    await startSession(user, rememberMe);
+    return user;
+  },
+
+  signup: async (data: SignupData, rememberMe = false): Promise<User> => {
+    await new Promise(r => setTimeout(r, 800));
+    
+    assertAvailable(Object.values(getUsers()), data.username, data.email);
+
+    const newUser = createUserRecord(data, data.password ? await hashPassword(data.password) : undefined);
+
+    saveUser(newUser);
+    await startSession(newUser, rememberMe);
+    return newUser;
+  },
+
+  loginWithIdToken: async (idToken: string, nonce: string, rememberMe = false): Promise<User> => {
+    const config = getOidcConfig();
+    if (!config) throw new Error("Single sign-on is not configured");
+    const identity = await verifyIdToken(idToken, config, nonce);
+
+    const users = Object.values(getUsers());
+    const user = linkOidcIdentity(users, identity) || createOidcUserRecord(users, identity);
+    saveUser(user);
+    await startSession(user, rememberMe);
+    return user;
+  },
+
+  completeOnboarding: (userId: string, selectedCategories: string[]) => {
+      const user = storage.get('users', userId);
+      if (user) {
+          applyOnboarding(user, selectedCategories);
+          saveUser(user);
+          return user;
+      }
+      return null;
+  },
+
+  logout: () => {
+    endSession();
+  },
+
+  getCurrentUser: (): User | null => {
+    const session = getCurrentSession();
+    if (!session) return null;
+    return storage.get('users', session.userId) || null;
+  },
+
+  getSessions: async (): Promise<SessionInfo[]> => {
+    const session = getCurrentSession();
+    if (!session) return [];
+    return listUserSessions(getSessions(), session.userId, session.id);
+  },
+
+  revokeSession: async (sessionId: string) => {
+    const session = getCurrentSession();
+    const target = storage.get('sessions', sessionId);
+    if (!session || target?.userId !== session.userId) return;
+    if (sessionId === session.id) {
+      endSession();
+    } else {
+      storage.delete('sessions', sessionId);
+    }
+  },
+
+  revokeOtherSessions: async () => {
+    const session = getCurrentSession();
+    if (!session) return;
+    getSessions()
+      .filter(s => s.userId === session.userId && s.id !== session.id)
+      .forEach(s => storage.delete('sessions', s.id));
+  },
+
+  updateInterests: (userId: string, category: string, delta: number) => {
+    const user = storage.get('users', userId);
+    if (user) {
+      applyInterestDelta(user, category, delta);
+      saveUser(user);
+      return user;
+    }
+    return null;
+  },
+
+  updateVoiceSettings: (userId: string, voiceSettings: VoiceSettings) => {
+    const user = storage.get('users', userId);
+    if (user) {
+      user.voiceSettings = voiceSettings;
+      saveUser(user);
+      return user;
+    }
+    return null;
+  },
+
+  updatePreferredLanguage: (userId: string, language: string) => {
+    const user = storage.get('users', userId);
+    if (user) {
+      user.preferredLanguage = language;
+      saveUser(user);
+      return user;
+    }
+    return null;
+  },
+
+  updateProfile: async (userId: string, changes: ProfileChanges): Promise<User> => {
+    const user = getStoredUser(userId);
+    applyProfileChanges(Object.values(getUsers()), user, changes);
+    saveUser(user);
+    return user;
+  },
+
+  changePassword: async (userId: string, currentPassword: string, newPassword: string) => {
+    const user = getStoredUser(userId);
+    await assertPassword(user, currentPassword, "Current password is incorrect");
+    if (!newPassword) throw new Error("Enter a new password");
+    user.password = await hashPassword(newPassword);
+    saveUser(user);
+    await localUserService.revokeOtherSessions();
+  },
+
+  requestAgeRangeChange: async (userId: string, ageRange: AgeRange): Promise<User> => {
+    const user = getStoredUser(userId);
+    applyAgeRangeRequest(user, ageRange);
+    saveUser(user);
+    return user;
+  },
+
+  resetInterests: (userId: string) => {
+    const user = storage.get('users', userId);
+    if (user) {
+      resetInterests(user);
+      saveUser(user);
+      return user;
+    }
+    return null;
+  },
+
+  deleteAccount: async (userId: string, password: string) => {
+    const user = getStoredUser(userId);
+    await assertPassword(user, password, "Password is incorrect");
+    localUserService.deleteUserData(userId);
+    endSession();
+  },
+
+  /**
+   * Removes everything this browser holds for a user: the account, sessions,
+   * feedback, briefings and chat history.
+   */
+  deleteUserData: (userId: string) => {
+    storage.delete('users', userId);
+    getSessions().filter(s => s.userId === userId).forEach(s => storage.delete('sessions', s.id));
+    Object.values(storage.getAll('feedback')).filter(f => f.userId === userId).forEach(f => storage.delete('feedback', f.id));
+    Object.keys(storage.getAll('briefings')).filter(key => key.startsWith(`${userId}_`)).forEach(key => storage.delete('briefings', key));
+    Object.values(storage.getAll('chats')).filter(t => t.userId === userId).forEach(t => storage.delete('chats', t.id));
+  },
+
+  addToHistory: (userId: string, articleId: string) => {
+    const user = storage.get('users', userId);
+    if (user && addReadArticle(user, articleId)) {
+      saveUser(user);
+    }
+  },
+
+  submitFeedback: async (feedback: Omit<Feedback, 'id' | 'timestamp'>) => {
+    const newFeedback: Feedback = {
+      ...feedback,
+      // Random suffix so two submissions in the same millisecond don't share a key
+      id: `fb-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+      timestamp: new Date().toISOString()
+    };
+    
+    storage.put('feedback', newFeedback.id, newFeedback);
+    return true;
+  },
+
+  getDailyBriefing: (userId: string, dateStr: string): NewsArticle[] | null => {
+    return storage.get('briefings', getBriefingKey(userId, dateStr)) || null;
+  },
+
+  saveDailyBriefing: (userId: string, dateStr: string, articles: NewsArticle[]) => {
+    storage.put('briefings', getBriefingKey(userId, dateStr), articles);
+  },
+
+  /**
+   * Frees space by dropping cached briefings and translations; both are
+   * fetched again when next needed.
+   */
+  clearCachedBriefings: () => {
+    storage.clear('briefings');
+    storage.clear('translations');
+  },
+
+  /**
+   * Cached translations for the given articles, keyed by article id. Articles
+   * without a translation in that language are left out.
+   */
+  getTranslations: (language: string, articleIds: string[]): Record<string, ArticleTranslation> => {
+    const found: Record<string, ArticleTranslation> = {};
+    articleIds.forEach(id => {
+      const translation = storage.get('translations', getTranslationKey(language, id));
+      if (translation) found[id] = translation;
+    });
+    return found;
+  },
+
+  saveTranslations: (language: string, byArticleId: Record<string, ArticleTranslation>) => {
+    Object.entries(byArticleId).forEach(([id, translation]) => {
+      storage.put('translations', getTranslationKey(language, id), translation);
+    });
+  },
+
+  /**
+   * One thread per user, day and (optionally) article.
+   */
+  getChatThreadId: (userId: string, dateStr: string, articleId?: string): string => {
+    return `${userId}_${dateStr}_${articleId || 'day'}`;
+  },
+
+  getChatThread: (threadId: string): ChatThread | null => {
+    return storage.get('chats', threadId) || null;
+  },
+
+  /**
+   * All of a user's threads, most recently active first.
+   */
+  getChatThreads: (userId: string): ChatThread[] => {
+    return Object.values(storage.getAll('chats'))
+      .filter(t => t.userId === userId)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  },
+
+  saveChatThread: (thread: Omit<ChatThread, 'updatedAt'>): ChatThread => {
+    const saved: ChatThread = {
+      ...thread,
+      // Transient streaming state should not survive a reload
+      messages: thread.messages.map(({ isThinking, isStreaming, ...m }) => m),
+      updatedAt: new Date().toISOString()
+    };
+    storage.put('chats', saved.id, saved);
+    return saved;
+  },
+
+  // --- Admin Functions ---
+  
+  /**
+   * Remote Deletion (Admin tool).
+   * Usage: Call `adminDeleteUser('user-id')` from console.
+   */
+  adminDeleteUser: (userIdToWipe: string) => {
+      const users = getUsers();
+      if (users[userIdToWipe]) {
+          const wasSignedIn = localUserService.getCurrentUser()?.id === userIdToWipe;
+          localUserService.deleteUserData(userIdToWipe);
+          console.log(`User ${userIdToWipe} has been permanently deleted.`);
+          
+          // If current user was deleted, logout
+          if (wasSignedIn) {
+              sessionToken.clear();
+              window.location.reload();
+          }
+          return true;
+      } else {
+          console.warn(`User ${userIdToWipe} not found. Available IDs:`, Object.keys(users));
+          return false;
+      }
+  },
+
+  /**
+   * Remote Creation (Admin tool).
+   * Usage: Call `await adminAddUser('newuser', 'password123', 'email@test.com', 'Adult (18+)')` from console.
+   */
+  adminAddUser: async (username: string, password: string, email: string, ageRange: string = AgeRange.ADULT) => {
+      try {
+          const newUser = createUserRecord({ username, email, ageRange: ageRange as AgeRange }, await hashPassword(password));
+          saveUser(newUser);
+          console.log(`User created successfully. ID: ${newUser.id}`);
+          return newUser.id;
+      } catch (e) {
+          console.error("Failed to create user", e);
+          return null;
+      }
+  },
+
+  /**
+   * Approves a user's pending age range change (Admin tool).
+   * Usage: Call `adminApproveAgeRange('user-id')` from console.
+   */
+  adminApproveAgeRange: (userId: string) => {
+      const user = storage.get('users', userId);
+      if (!user || !approveAgeRangeRequest(user)) {
+          console.warn(`No pending age range request for ${userId}`);
+          return false;
+      }
+      saveUser(user);
+      console.log(`User ${userId} is now ${user.ageRange}`);
+      return true;
+  },
+
+  /**
+   * List Users (Admin tool)
+   */
+  adminListUsers: () => {
+      const users = getUsers();
+      console.table(Object.values(users).map(u => ({ id: u.id, username: u.username, email: u.email, ageRangeRequest: u.ageRangeRequest?.ageRange })));
+  }
+};
+
+// Expose to window for "Remote Code" access via DevTools
+(window as any).adminDeleteUser = localUserService.adminDeleteUser;
+(window as any).adminAddUser = localUserService.adminAddUser;
+(window as any).adminListUsers = localUserService.adminListUsers;
+(window as any).adminApproveAgeRange = localUserService.adminApproveAgeRange;
\ No newline at end of file
@@ -0,0 +1,21 @@
+import { NewsProvider } from "../types";
+import { geminiNewsProvider } from "./geminiService";
+import { fixtureNewsProvider } from "./fixtureNewsProvider";
+
+const providers: Record<string, NewsProvider> = {
+  gemini: geminiNewsProvider,
+  fixture: fixtureNewsProvider
+};
+
+/**
+ * Picks the news backend from the NEWS_PROVIDER env var ('gemini' or 'fixture').
+ * Defaults to Gemini.
+ */
+export const getNewsProvider = (name: string | undefined = process.env.NEWS_PROVIDER): NewsProvider => {
+  if (name && !providers[name]) {
+    console.warn(`Unknown NEWS_PROVIDER "${name}", falling back to gemini`);
+  }
+  return (name && providers[name]) || geminiNewsProvider;
+};
+
+export const newsProvider = getNewsProvider();
@@ -0,0 +1,158 @@
+/**
+ * OpenID Connect discovery and ID token validation. Runs in the browser (local
+ * accounts) and on the API server, so both check tokens the same way.
+ */
+
+// Tokens are accepted this long past `exp` (and before `iat`) to allow for clock drift
+const CLOCK_SKEW_SECONDS = 60;
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+}
+
+export interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+/** Who signed in, taken from a validated ID token. */
+export interface OidcIdentity {
+  issuer: string;
+  subject: string;
+  email?: string;
+  emailVerified: boolean;
+  name?: string;
+  preferredUsername?: string;
+  /** When the ID token stops being accepted (ms since the epoch, clock skew included). */
+  expiresAt: number;
+}
+
+interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  azp?: string;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean | string; // Some providers send "true"
+  name?: string;
+  preferred_username?: string;
+}
+
+const SIGNING_ALGORITHMS: Record<string, { importParams: RsaHashedImportParams | EcKeyImportParams; verifyParams: AlgorithmIdentifier | EcdsaParams }> = {
+  RS256: {
+    importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    verifyParams: 'RSASSA-PKCS1-v1_5'
+  },
+  ES256: {
+    importParams: { name: 'ECDSA', namedCurve: 'P-256' },
+    verifyParams: { name: 'ECDSA', hash: 'SHA-256' }
+  }
+};
+
+const stripTrailingSlash = (url: string) => url.replace(/\/$/, '');
+
+/**
+ * The configured identity provider, or null if sign-in with one is turned off.
+ */
+export const getOidcConfig = (): OidcConfig | null => {
+  const issuer = process.env.OIDC_ISSUER;
+  const clientId = process.env.OIDC_CLIENT_ID;
+  return issuer && clientId ? { issuer: stripTrailingSlash(issuer), clientId } : null;
+};
+
+export const base64UrlEncode = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const base64UrlDecode = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0));
+
+const decodeJsonPart = (part: string) => JSON.parse(new TextDecoder().decode(base64UrlDecode(part)));
+
+const fetchJson = async <T>(url: string): Promise<T> => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Request to ${url} failed (${res.status})`);
+  return res.json();
+};
+
+const discoveryCache = new Map<string, Promise<OidcDiscovery>>();
+const jwksCache = new Map<string, Promise<JsonWebKey[]>>();
+
+export const getDiscovery = (issuer: string): Promise<OidcDiscovery> => {
+  let discovery = discoveryCache.get(issuer);
+  if (!discovery) {
+    discovery = fetchJson<OidcDiscovery>(`${issuer}/.well-known/openid-configuration`).then(doc => {
+      if (stripTrailingSlash(doc.issuer) !== issuer) throw new Error("Identity provider reported a different issuer");
+      return doc;
+    });
+    // Don't cache failures, so the next attempt tries again
+    discovery.catch(() => discoveryCache.delete(issuer));
+    discoveryCache.set(issuer, discovery);
+  }
+  return discovery;
+};
+
+const getJwks = (issuer: string, refresh = false): Promise<JsonWebKey[]> => {
+  let keys = refresh ? undefined : jwksCache.get(issuer);
+  if (!keys) {
+    keys = getDiscovery(issuer)
+      .then(doc => fetchJson<{ keys: JsonWebKey[] }>(doc.jwks_uri))
+      .then(jwks => jwks.keys);
+    keys.catch(() => jwksCache.delete(issuer));
+    jwksCache.set(issuer, keys);
+  }
+  return keys;
+};
+
+const getSigningKey = async (issuer: string, kid: string | undefined, alg: string): Promise<CryptoKey> => {
+  const find = (keys: JsonWebKey[]) => keys.find(k => (k as { kid?: string }).kid === kid && (!k.alg || k.alg === alg));
+  // Providers rotate keys, so an unknown kid means our copy may be stale
+  const jwk = find(await getJwks(issuer)) || find(await getJwks(issuer, true));
+  if (!jwk) throw new Error("ID token was signed with an unknown key");
+  return crypto.subtle.importKey('jwk', jwk, SIGNING_ALGORITHMS[alg].importParams, false, ['verify']);
+};
+
+/**
+ * Checks an ID token's signature against the provider's published keys, and
+ * its issuer, audience, expiry and nonce. Throws if any check fails.
+ */
+export const verifyIdToken = async (idToken: string, config: OidcConfig, nonce: string): Promise<OidcIdentity> => {
+  const parts = idToken.split('.');
+  if (parts.length !== 3) throw new Error("Malformed ID token");
+  const [headerPart, payloadPart, signaturePart] = parts;
+
+  const header = decodeJsonPart(headerPart);
+  const algorithm = SIGNING_ALGORITHMS[header.alg];
+  if (!algorithm) throw new Error(`Unsupported ID token algorithm: ${header.alg}`);
+
+  const key = await getSigningKey(config.issuer, header.kid, header.alg);
+  const signed = new TextEncoder().encode(`${headerPart}.${payloadPart}`);
+  if (!await crypto.subtle.verify(algorithm.verifyParams, key, base64UrlDecode(signaturePart), signed)) {
+    throw new Error("ID token signature is invalid");
+  }
+
+  const claims: IdTokenClaims = decodeJsonPart(payloadPart);
+  const now = Date.now() / 1000;
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (stripTrailingSlash(claims.iss) !== config.issuer) throw new Error("ID token is from a different issuer");
+  if (!audiences.includes(config.clientId)) throw new Error("ID token is for a different client");
+  if (audiences.length > 1 && claims.azp !== config.clientId) throw new Error("ID token is for a different client");
+  if (claims.exp + CLOCK_SKEW_SECONDS < now) throw new Error("ID token has expired");
+  if (claims.iat - CLOCK_SKEW_SECONDS > now) throw new Error("ID token was issued in the future");
+  if (!claims.nonce || claims.nonce !== nonce) throw new Error("ID token nonce doesn't match the sign-in request");
+
+  return {
+    issuer: config.issuer,
+    subject: claims.sub,
+    email: claims.email,
+    emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+    name: claims.name,
+    preferredUsername: claims.preferred_username,
+    expiresAt: (claims.exp + CLOCK_SKEW_SECONDS) * 1000
+  };
+};
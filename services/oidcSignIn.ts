@@ -0,0 +1,106 @@
+import { base64UrlEncode, getDiscovery, getOidcConfig } from "./oidc";
+
+/**
+ * The browser half of sign-in with an identity provider: the authorization
+ * code flow with PKCE. The resulting ID token is checked by the user service.
+ */
+
+const STORAGE_KEY_PENDING = 'yir_oidc_pending'; // sessionStorage
+
+// Query parameters the provider may add to the redirect, removed once read
+const CALLBACK_PARAMS = ['code', 'state', 'error', 'error_description', 'iss', 'scope', 'session_state', 'authuser', 'prompt'];
+
+interface PendingSignIn {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+  rememberMe: boolean; // From the sign-in form, carried across the redirect
+}
+
+/** Shown on the sign-in button, e.g. "Continue with Google". */
+export const OIDC_PROVIDER_NAME = process.env.OIDC_PROVIDER_NAME || 'SSO';
+
+export const isOidcConfigured = () => getOidcConfig() !== null;
+
+const randomToken = () => base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+
+const getRedirectUri = () => process.env.OIDC_REDIRECT_URI || `${window.location.origin}${window.location.pathname}`;
+
+/**
+ * Sends the browser to the identity provider. It comes back to this page
+ * with a code; see `completeOidcSignIn`.
+ */
+export const startOidcSignIn = async (rememberMe = false) => {
+  const config = getOidcConfig();
+  if (!config) throw new Error("Single sign-on is not configured");
+  const discovery = await getDiscovery(config.issuer);
+
+  const pending: PendingSignIn = {
+    state: randomToken(),
+    nonce: randomToken(),
+    codeVerifier: randomToken(),
+    redirectUri: getRedirectUri(),
+    rememberMe
+  };
+  const challenge = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(pending.codeVerifier));
+  sessionStorage.setItem(STORAGE_KEY_PENDING, JSON.stringify(pending));
+
+  const url = new URL(discovery.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: pending.redirectUri,
+    scope: 'openid email profile',
+    state: pending.state,
+    nonce: pending.nonce,
+    code_challenge: base64UrlEncode(new Uint8Array(challenge)),
+    code_challenge_method: 'S256'
+  }).toString();
+  window.location.assign(url.toString());
+};
+
+/** True when this page load is the provider redirecting back to us. */
+export const isOidcCallback = () => {
+  const params = new URLSearchParams(window.location.search);
+  return params.has('state') && (params.has('code') || params.has('error')) && sessionStorage.getItem(STORAGE_KEY_PENDING) !== null;
+};
+
+/**
+ * Exchanges the code from the redirect for an ID token. Returns the token
+ * with the nonce it must contain, so it can be checked wherever accounts live,
+ * and the "remember me" choice made before the redirect.
+ */
+export const completeOidcSignIn = async (): Promise<{ idToken: string; nonce: string; rememberMe: boolean }> => {
+  const config = getOidcConfig();
+  const params = new URLSearchParams(window.location.search);
+  const pending: PendingSignIn = JSON.parse(sessionStorage.getItem(STORAGE_KEY_PENDING) || 'null');
+
+  // Codes are single use: forget the request and tidy the address bar straight away
+  sessionStorage.removeItem(STORAGE_KEY_PENDING);
+  const cleanUrl = new URL(window.location.href);
+  CALLBACK_PARAMS.forEach(p => cleanUrl.searchParams.delete(p));
+  window.history.replaceState(null, '', cleanUrl.toString());
+
+  if (!config || !pending) throw new Error("No sign-in is in progress");
+  const error = params.get('error');
+  if (error) throw new Error(error === 'access_denied' ? "Sign-in was cancelled" : params.get('error_description') || `Sign-in failed (${error})`);
+  if (params.get('state') !== pending.state) throw new Error("Sign-in response didn't match the request. Please try again.");
+
+  const discovery = await getDiscovery(config.issuer);
+  const res = await fetch(discovery.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: params.get('code') || '',
+      redirect_uri: pending.redirectUri,
+      client_id: config.clientId,
+      code_verifier: pending.codeVerifier
+    })
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok || !data.id_token) throw new Error(data.error_description || "Sign-in failed: the provider returned no ID token");
+
+  return { idToken: data.id_token, nonce: pending.nonce, rememberMe: pending.rememberMe === true };
+};
@@ -0,0 +1,76 @@
+/**
+ * Password hashing with Web Crypto PBKDF2.
+ *
+ * Hashes are stored as "pbkdf2-sha256$<version>$<iterations>$<salt>$<hash>"
+ * (salt and hash base64), so the iteration count can be raised later and old
+ * hashes upgraded on the next login.
+ */
+
+const ALGORITHM = 'pbkdf2-sha256';
+export const PASSWORD_HASH_VERSION = 1;
+export const PBKDF2_ITERATIONS = Number(process.env.PBKDF2_ITERATIONS) || 600000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+export interface PasswordCheck {
+  valid: boolean;
+  /** The stored hash is legacy or weaker than current settings and should be replaced. */
+  needsRehash: boolean;
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const derive = async (password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, HASH_BITS);
+  return new Uint8Array(bits);
+};
+
+// Compares every byte so the time taken doesn't reveal where a mismatch is
+const constantTimeEqual = (a: Uint8Array, b: Uint8Array) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+};
+
+/**
+ * The original unsalted 32-bit string hash. Only used to verify accounts
+ * created before PBKDF2, which are then migrated.
+ */
+const legacyHash = (password: string): string => {
+  let hash = 0;
+  for (let i = 0; i < password.length; i++) {
+    const char = password.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash;
+  }
+  return hash.toString();
+};
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(password, salt, PBKDF2_ITERATIONS);
+  return [ALGORITHM, `v${PASSWORD_HASH_VERSION}`, PBKDF2_ITERATIONS, toBase64(salt), toBase64(hash)].join('$');
+};
+
+export const verifyPassword = async (password: string, stored?: string): Promise<PasswordCheck> => {
+  if (!stored) return { valid: false, needsRehash: false };
+
+  const [algorithm, version, iterationsText, salt, hash] = stored.split('$');
+  if (algorithm !== ALGORITHM) {
+    const valid = legacyHash(password) === stored;
+    return { valid, needsRehash: valid };
+  }
+
+  const iterations = Number(iterationsText);
+  if (version !== `v${PASSWORD_HASH_VERSION}` || !iterations || !salt || !hash) {
+    console.warn("Unrecognized password hash format");
+    return { valid: false, needsRehash: false };
+  }
+
+  const derived = await derive(password, fromBase64(salt), iterations);
+  const valid = constantTimeEqual(derived, fromBase64(hash));
+  return { valid, needsRehash: valid && iterations < PBKDF2_ITERATIONS };
+};
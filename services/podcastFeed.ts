@@ -0,0 +1,107 @@
+import { NewsArticle } from "../types";
+
+/**
+ * One day's episode: the cached briefing plus its exported full-day audio.
+ */
+export interface PodcastEpisode {
+  dateKey: string; // YYYY-MM-DD
+  articles: NewsArticle[];
+  audioUrl: string;
+  audioBytes: number;
+  audioType: string; // e.g. 'audio/wav'
+  durationSeconds?: number;
+}
+
+export interface PodcastChannel {
+  title: string;
+  link: string;
+  description: string;
+  author: string;
+  language?: string;
+  imageUrl?: string;
+  ownerEmail?: string;
+}
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+// CDATA can't contain its own terminator, so split it across two sections
+const cdata = (text: string) => `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+// Noon UTC so the date doesn't shift a day in podcast apps' local time
+const parseDateKey = (dateKey: string) => new Date(`${dateKey}T12:00:00Z`);
+
+const formatDuration = (seconds: number) => {
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+};
+
+export const episodeTitle = (dateKey: string) =>
+  parseDateKey(dateKey).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+
+/**
+ * HTML show notes: each story's title and summary, with its source links.
+ */
+export const buildShowNotes = (articles: NewsArticle[]): string => {
+  const items = articles.map(article => {
+    const sources = article.sources
+      .map(s => `<a href="${escapeXml(s.uri)}">${escapeXml(s.publisher || s.title)}</a>`)
+      .join(', ');
+    return `<li><strong>${escapeXml(article.title)}</strong> (${escapeXml(article.category)})<br/>${escapeXml(article.summary)}${sources ? `<br/>Sources: ${sources}` : ''}</li>`;
+  });
+  return `<ol>${items.join('')}</ol>`;
+};
+
+const buildItem = (episode: PodcastEpisode): string => {
+  const title = episodeTitle(episode.dateKey);
+  const plainSummary = episode.articles.map((a, i) => `${i + 1}. ${a.title}`).join('\n');
+  const notes = buildShowNotes(episode.articles);
+
+  return `
+    <item>
+      <title>${escapeXml(title)}</title>
+      <description>${cdata(notes)}</description>
+      <content:encoded>${cdata(notes)}</content:encoded>
+      <itunes:summary>${escapeXml(plainSummary)}</itunes:summary>
+      <itunes:episodeType>full</itunes:episodeType>
+      <enclosure url="${escapeXml(episode.audioUrl)}" length="${episode.audioBytes}" type="${escapeXml(episode.audioType)}"/>
+      <guid isPermaLink="false">yir-${episode.dateKey}</guid>
+      <pubDate>${parseDateKey(episode.dateKey).toUTCString()}</pubDate>${episode.durationSeconds !== undefined ? `
+      <itunes:duration>${formatDuration(episode.durationSeconds)}</itunes:duration>` : ''}
+    </item>`;
+};
+
+/**
+ * Builds an RSS 2.0 feed with iTunes tags, one item per day, newest first.
+ */
+export const buildPodcastFeed = (channel: PodcastChannel, episodes: PodcastEpisode[]): string => {
+  const sorted = [...episodes].sort((a, b) => b.dateKey.localeCompare(a.dateKey));
+  const lastBuild = sorted[0] ? parseDateKey(sorted[0].dateKey) : new Date();
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>${escapeXml(channel.title)}</title>
+    <link>${escapeXml(channel.link)}</link>
+    <description>${escapeXml(channel.description)}</description>
+    <language>${escapeXml(channel.language || 'en-us')}</language>
+    <lastBuildDate>${lastBuild.toUTCString()}</lastBuildDate>
+    <itunes:author>${escapeXml(channel.author)}</itunes:author>
+    <itunes:summary>${escapeXml(channel.description)}</itunes:summary>
+    <itunes:explicit>false</itunes:explicit>
+    <itunes:type>episodic</itunes:type>
+    <itunes:category text="News"><itunes:category text="Daily News"/></itunes:category>${channel.imageUrl ? `
+    <itunes:image href="${escapeXml(channel.imageUrl)}"/>` : ''}${channel.ownerEmail ? `
+    <itunes:owner><itunes:name>${escapeXml(channel.author)}</itunes:name><itunes:email>${escapeXml(channel.ownerEmail)}</itunes:email></itunes:owner>` : ''}${sorted.map(buildItem).join('')}
+  </channel>
+</rss>
+`;
+};
@@ -0,0 +1,108 @@
+import { Session, SessionInfo } from "../types";
+import { base64UrlEncode } from "./oidc";
+
+/**
+ * Session rules shared by the browser store (`localUserService`) and the API
+ * server. Sessions expire unless refreshed; signed-in clients refresh every
+ * SESSION_REFRESH_INTERVAL_MS, which also updates "last seen".
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// How long a session lasts after its last refresh
+const SESSION_TTL_MS = {
+  remembered: 30 * 24 * HOUR_MS,
+  browser: 12 * HOUR_MS
+};
+
+export const SESSION_REFRESH_INTERVAL_MS = 10 * 60 * 1000;
+
+const randomToken = () => base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+
+export const hashSessionToken = async (token: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return base64UrlEncode(new Uint8Array(digest));
+};
+
+const expiryFrom = (now: number, rememberMe: boolean) =>
+  new Date(now + (rememberMe ? SESSION_TTL_MS.remembered : SESSION_TTL_MS.browser)).toISOString();
+
+/** A short label for a user agent string, e.g. "Chrome on macOS". */
+export const describeDevice = (userAgent = ''): string => {
+  // Order matters: most browsers also claim to be Chrome and Safari
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /OPR\//.test(userAgent) ? 'Opera' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' : null;
+  const os =
+    /iPhone|iPad|iPod/.test(userAgent) ? 'iOS' :
+    /Android/.test(userAgent) ? 'Android' :
+    /CrOS/.test(userAgent) ? 'ChromeOS' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Mac OS X|Macintosh/.test(userAgent) ? 'macOS' :
+    /Linux/.test(userAgent) ? 'Linux' : null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || 'Unknown device';
+};
+
+/** A new session. Returns it with the token, which is handed to the client and never stored. */
+export const createSessionRecord = async (userId: string, rememberMe: boolean, userAgent?: string) => {
+  const token = randomToken();
+  const now = Date.now();
+  const session: Session = {
+    id: `session-${now}-${randomToken().slice(0, 6)}`,
+    userId,
+    tokenHash: await hashSessionToken(token),
+    device: describeDevice(userAgent),
+    rememberMe,
+    createdAt: new Date(now).toISOString(),
+    lastSeenAt: new Date(now).toISOString(),
+    expiresAt: expiryFrom(now, rememberMe)
+  };
+  return { session, token };
+};
+
+export const isSessionExpired = (session: Session, now = Date.now()) => Date.parse(session.expiresAt) <= now;
+
+/** True once a session is due its next refresh. */
+export const isRefreshDue = (session: Session, now = Date.now()) =>
+  now - Date.parse(session.lastSeenAt) >= SESSION_REFRESH_INTERVAL_MS;
+
+/** Marks a session as seen now and pushes its expiry back. */
+export const touchSession = (session: Session) => {
+  const now = Date.now();
+  session.lastSeenAt = new Date(now).toISOString();
+  session.expiresAt = expiryFrom(now, session.rememberMe);
+};
+
+/**
+ * Touches a session and swaps in a new token, so a copy of the old one stops
+ * working. Returns the new token.
+ */
+export const rotateSessionToken = async (session: Session): Promise<string> => {
+  const token = randomToken();
+  session.tokenHash = await hashSessionToken(token);
+  touchSession(session);
+  return token;
+};
+
+/** The unexpired session a token belongs to, if any. */
+export const findSessionByToken = async (sessions: Session[], token: string): Promise<Session | undefined> => {
+  const tokenHash = await hashSessionToken(token);
+  return sessions.find(s => s.tokenHash === tokenHash && !isSessionExpired(s));
+};
+
+export const toSessionInfo = ({ id, device, rememberMe, createdAt, lastSeenAt, expiresAt }: Session, currentId?: string): SessionInfo => ({
+  id, device, rememberMe, createdAt, lastSeenAt, expiresAt, current: id === currentId
+});
+
+/** A user's unexpired sessions, most recently seen first. */
+export const listUserSessions = (sessions: Session[], userId: string, currentId?: string): SessionInfo[] => {
+  return sessions
+    .filter(s => s.userId === userId && !isSessionExpired(s))
+    .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt))
+    .map(s => toSessionInfo(s, currentId));
+};
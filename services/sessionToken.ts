@@ -0,0 +1,48 @@
+const STORAGE_KEY_SESSION = 'yir_session';
+
+interface StoredSession {
+  token: string;
+  expiresAt: string;
+}
+
+// "Remember me" sessions survive closing the browser; the rest only last as long as the tab
+const getStore = (rememberMe: boolean) => rememberMe ? localStorage : sessionStorage;
+
+const read = (): StoredSession | null => {
+  const str = localStorage.getItem(STORAGE_KEY_SESSION) ?? sessionStorage.getItem(STORAGE_KEY_SESSION);
+  return str ? JSON.parse(str) : null;
+};
+
+const isRemembered = () => localStorage.getItem(STORAGE_KEY_SESSION) !== null;
+
+/**
+ * The signed-in session's token, shared by everything that needs it (the user
+ * services and the Gemini proxy). Expired tokens are never handed out.
+ */
+export const sessionToken = {
+  get: (): string | null => {
+    const stored = read();
+    return stored && Date.parse(stored.expiresAt) > Date.now() ? stored.token : null;
+  },
+
+  set: (token: string, expiresAt: string, rememberMe: boolean) => {
+    sessionToken.clear();
+    getStore(rememberMe).setItem(STORAGE_KEY_SESSION, JSON.stringify({ token, expiresAt }));
+  },
+
+  /** Records a later expiry for the current token, after a refresh that kept it. */
+  extend: (expiresAt: string) => {
+    const stored = read();
+    if (stored) getStore(isRemembered()).setItem(STORAGE_KEY_SESSION, JSON.stringify({ ...stored, expiresAt }));
+  },
+
+  clear: () => {
+    localStorage.removeItem(STORAGE_KEY_SESSION);
+    sessionStorage.removeItem(STORAGE_KEY_SESSION);
+  },
+
+  authHeaders: (): Record<string, string> => {
+    const token = sessionToken.get();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }
+};
@@ -0,0 +1,154 @@
+import { GroundingChunk, GroundingMetadata } from "@google/genai";
+import { NewsSource } from "../types";
+
+const MAX_SOURCES_PER_ARTICLE = 3;
+
+const KNOWN_PUBLISHERS: Record<string, string> = {
+  'reuters.com': 'Reuters',
+  'apnews.com': 'AP News',
+  'bbc.com': 'BBC',
+  'bbc.co.uk': 'BBC',
+  'npr.org': 'NPR',
+  'bloomberg.com': 'Bloomberg',
+  'nytimes.com': 'The New York Times',
+  'aljazeera.com': 'Al Jazeera',
+  'theguardian.com': 'The Guardian',
+  'wsj.com': 'The Wall Street Journal',
+  'washingtonpost.com': 'The Washington Post',
+  'ft.com': 'Financial Times',
+  'economist.com': 'The Economist',
+  'cnn.com': 'CNN',
+  'cnbc.com': 'CNBC'
+};
+
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/i;
+
+/**
+ * Works out the publisher's domain for a grounding chunk. The Gemini API
+ * returns redirect URIs, but the chunk title is usually the bare domain.
+ */
+const getChunkDomain = (chunk: GroundingChunk): string | null => {
+  const web = chunk.web;
+  if (!web?.uri) return null;
+  if (web.domain) return web.domain.toLowerCase().replace(/^www\./, '');
+  if (web.title && DOMAIN_PATTERN.test(web.title.trim())) {
+    return web.title.trim().toLowerCase().replace(/^www\./, '');
+  }
+  try {
+    return new URL(web.uri).hostname.replace(/^www\./, '');
+  } catch (e) {
+    return null;
+  }
+};
+
+/**
+ * Human-readable publisher name for a domain, e.g. 'apnews.com' -> 'AP News'.
+ */
+export const getPublisherName = (domain: string): string => {
+  if (KNOWN_PUBLISHERS[domain]) return KNOWN_PUBLISHERS[domain];
+  // Match subdomains such as 'edition.cnn.com'
+  const parent = Object.keys(KNOWN_PUBLISHERS).find(d => domain.endsWith(`.${d}`));
+  return parent ? KNOWN_PUBLISHERS[parent] : domain;
+};
+
+const toNewsSource = (chunk: GroundingChunk, domain: string): NewsSource => ({
+  title: chunk.web?.title || domain,
+  uri: chunk.web?.uri || '',
+  publisher: getPublisherName(domain)
+});
+
+/**
+ * Turns grounding chunks into sources in their original order, deduped by domain.
+ */
+export const sourcesFromChunks = (chunks: GroundingChunk[] = [], limit = Infinity): NewsSource[] => {
+  const seenDomains = new Set<string>();
+  const sources: NewsSource[] = [];
+  chunks.forEach(chunk => {
+    const domain = getChunkDomain(chunk);
+    if (!domain || seenDomains.has(domain) || sources.length >= limit) return;
+    seenDomains.add(domain);
+    sources.push(toNewsSource(chunk, domain));
+  });
+  return sources;
+};
+
+/**
+ * Finds where each article lives in the raw response, as UTF-8 byte ranges
+ * (grounding segments are measured in bytes). Articles are located by title,
+ * in order, and each span runs until the next article starts.
+ */
+const findArticleSpans = (titles: string[], responseText: string): ({ start: number; end: number } | null)[] => {
+  const encoder = new TextEncoder();
+  const byteOffset = (charIndex: number) => encoder.encode(responseText.slice(0, charIndex)).length;
+
+  let searchFrom = 0;
+  const starts = titles.map(title => {
+    if (!title) return null;
+    // The title may appear JSON-escaped in the raw text
+    const escaped = JSON.stringify(title).slice(1, -1);
+    let index = responseText.indexOf(title, searchFrom);
+    if (index === -1) index = responseText.indexOf(escaped, searchFrom);
+    if (index === -1) return null;
+    searchFrom = index + 1;
+    return byteOffset(index);
+  });
+
+  const totalBytes = encoder.encode(responseText).length;
+  return starts.map((start, i) => {
+    if (start === null) return null;
+    const next = starts.slice(i + 1).find((s): s is number => s !== null);
+    return { start, end: next ?? totalBytes };
+  });
+};
+
+/**
+ * Maps each article to the grounding chunks that actually back it, using the
+ * segment-to-chunk supports in the grounding metadata. Sources are ranked by
+ * how often (and how confidently) they support the article, deduped by domain.
+ *
+ * @param titles Article titles, in the order they appear in the response.
+ *   Include items that are dropped later (as '' if untitled) so no span runs over them.
+ * @param responseText The raw model output the supports refer to.
+ * @param metadata Grounding metadata from the same response.
+ */
+export const attributeSources = (
+  titles: string[],
+  responseText: string,
+  metadata?: GroundingMetadata
+): NewsSource[][] => {
+  const chunks = metadata?.groundingChunks || [];
+  const supports = metadata?.groundingSupports || [];
+  const spans = findArticleSpans(titles, responseText);
+
+  // chunk index -> accumulated confidence, per article
+  const weights: Map<number, number>[] = titles.map(() => new Map());
+
+  supports.forEach(support => {
+    const indices = support.groundingChunkIndices || [];
+    if (indices.length === 0) return;
+
+    const startByte = support.segment?.startIndex ?? 0;
+    let articleIndex = spans.findIndex(span => span !== null && startByte >= span.start && startByte < span.end);
+
+    // Fall back to matching the segment text if offsets didn't line up
+    if (articleIndex === -1 && support.segment?.text) {
+      const segmentText = support.segment.text;
+      articleIndex = titles.findIndex(t => t && segmentText.includes(t));
+    }
+    if (articleIndex === -1) return;
+
+    indices.forEach((chunkIndex, i) => {
+      const confidence = support.confidenceScores?.[i] ?? 0.5;
+      const articleWeights = weights[articleIndex];
+      articleWeights.set(chunkIndex, (articleWeights.get(chunkIndex) || 0) + confidence);
+    });
+  });
+
+  return weights.map(articleWeights => {
+    const ranked = [...articleWeights.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([chunkIndex]) => chunks[chunkIndex])
+      .filter(Boolean);
+    return sourcesFromChunks(ranked, MAX_SOURCES_PER_ARTICLE);
+  });
+};
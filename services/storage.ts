@@ -0,0 +1,125 @@
+import { STORE_NAMES, StorageRepository, StoreName, StoreRecords, isQuotaError } from "./storageRepository";
+import { LEGACY_STORAGE_KEYS, createLocalStorageRepository } from "./localStorageRepository";
+import { createIndexedDbRepository, isIndexedDbAvailable } from "./indexedDbRepository";
+
+export interface StorageError {
+  kind: 'quota' | 'error';
+  store: StoreName;
+  message: string;
+}
+
+type StorageErrorListener = (error: StorageError) => void;
+
+type StoreCache = { [S in StoreName]: Map<string, StoreRecords[S]> };
+
+let repository: StorageRepository = createLocalStorageRepository();
+const cache = Object.fromEntries(STORE_NAMES.map(name => [name, new Map()])) as StoreCache;
+const listeners = new Set<StorageErrorListener>();
+
+const report = (store: StoreName, error: unknown) => {
+  const storageError: StorageError = isQuotaError(error)
+    ? { kind: 'quota', store, message: "Your browser's storage for this site is full." }
+    : { kind: 'error', store, message: "Some changes couldn't be saved on this device." };
+  console.error(`Failed to save ${store} to ${repository.name}`, error);
+  listeners.forEach(listener => listener(storageError));
+};
+
+// Records are handed out as copies, like parsing JSON did, so callers can mutate freely
+const clone = <T>(value: T): T => structuredClone(value);
+
+/**
+ * Copies the old localStorage blobs into IndexedDB, then removes them to free
+ * up localStorage. Runs on the first start with IndexedDB; later starts find
+ * no blobs and skip it.
+ */
+const migrateFromLocalStorage = async (target: StorageRepository) => {
+  const legacy = createLocalStorageRepository();
+  for (const store of STORE_NAMES) {
+    if (localStorage.getItem(LEGACY_STORAGE_KEYS[store]) === null) continue;
+    const records = await legacy.getAll(store);
+    for (const [key, value] of Object.entries(records)) {
+      await target.put(store, key, value);
+    }
+    await legacy.clear(store);
+    console.log(`Migrated ${Object.keys(records).length} ${store} record(s) to ${target.name}`);
+  }
+};
+
+const selectRepository = async (): Promise<StorageRepository> => {
+  if (process.env.STORAGE_BACKEND === 'localStorage' || !isIndexedDbAvailable()) {
+    return createLocalStorageRepository();
+  }
+  const indexedDb = createIndexedDbRepository();
+  try {
+    await migrateFromLocalStorage(indexedDb);
+    return indexedDb;
+  } catch (e) {
+    // e.g. IndexedDB disabled in private browsing; keep using what already works
+    console.warn("IndexedDB unavailable, falling back to localStorage", e);
+    return createLocalStorageRepository();
+  }
+};
+
+const loadStore = async <S extends StoreName>(store: S) => {
+  const records = await repository.getAll(store);
+  const map: Map<string, StoreRecords[S]> = cache[store];
+  map.clear();
+  Object.entries(records).forEach(([key, value]) => map.set(key, value));
+};
+
+/**
+ * Picks a backend, migrates old data and loads everything into memory.
+ * Must finish before the app reads any data.
+ */
+export const initStorage = async () => {
+  repository = await selectRepository();
+  for (const store of STORE_NAMES) {
+    try {
+      await loadStore(store);
+    } catch (e) {
+      console.error(`Failed to load ${store}`, e);
+    }
+  }
+};
+
+/**
+ * Synchronous access to app data. Reads come from memory; writes update
+ * memory immediately and are persisted in the background. Failed writes are
+ * reported through `onStorageError` rather than thrown, so a full disk never
+ * crashes the app (the change still lasts for this session).
+ */
+export const storage = {
+  get: <S extends StoreName>(store: S, key: string): StoreRecords[S] | undefined => {
+    const value = cache[store].get(key);
+    return value === undefined ? undefined : clone(value);
+  },
+
+  getAll: <S extends StoreName>(store: S): Record<string, StoreRecords[S]> => {
+    return clone(Object.fromEntries(cache[store]) as Record<string, StoreRecords[S]>);
+  },
+
+  put: <S extends StoreName>(store: S, key: string, value: StoreRecords[S]) => {
+    cache[store].set(key, clone(value));
+    repository.put(store, key, value).catch(e => report(store, e));
+  },
+
+  delete: (store: StoreName, key: string) => {
+    cache[store].delete(key);
+    repository.delete(store, key).catch(e => report(store, e));
+  },
+
+  clear: (store: StoreName) => {
+    cache[store].clear();
+    repository.clear(store).catch(e => report(store, e));
+  }
+};
+
+/**
+ * Subscribes to failed writes. Returns an unsubscribe function.
+ */
+export const onStorageError = (listener: StorageErrorListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
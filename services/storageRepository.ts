@@ -0,0 +1,39 @@
+import { ArticleTranslation, ChatThread, Feedback, NewsArticle, Session, User } from "../types";
+
+/**
+ * The record type kept in each store. Keys are strings chosen by `userService`
+ * (user id, `<userId>_<date>` for briefings, thread id for chat history, ...).
+ */
+export interface StoreRecords {
+  users: User;
+  feedback: Feedback;
+  briefings: NewsArticle[];
+  chats: ChatThread; // Chat history
+  translations: ArticleTranslation;
+  sessions: Session;
+}
+
+export type StoreName = keyof StoreRecords;
+
+export const STORE_NAMES: StoreName[] = ['users', 'feedback', 'briefings', 'chats', 'translations', 'sessions'];
+
+/**
+ * Persistence backend for app data. Implementations reject with the browser's
+ * own error on failure; use `isQuotaError` to tell "storage full" apart.
+ */
+export interface StorageRepository {
+  readonly name: string;
+  getAll: <S extends StoreName>(store: S) => Promise<Record<string, StoreRecords[S]>>;
+  put: <S extends StoreName>(store: S, key: string, value: StoreRecords[S]) => Promise<void>;
+  delete: (store: StoreName, key: string) => Promise<void>;
+  clear: (store: StoreName) => Promise<void>;
+}
+
+/**
+ * True for "storage full" errors from either localStorage or IndexedDB.
+ */
+export const isQuotaError = (error: unknown): boolean => {
+  if (!(error instanceof DOMException)) return false;
+  // Firefox used its own name and code before standardizing
+  return error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED' || error.code === 22;
+};
@@ -0,0 +1,94 @@
+import { NewsArticle, NewsSource } from "../types";
+
+// Weighted title/summary similarity above which two articles are the same story
+const DUPLICATE_THRESHOLD = 0.5;
+const TITLE_WEIGHT = 0.6;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'at', 'for', 'with', 'by', 'from',
+  'as', 'is', 'are', 'was', 'were', 'be', 'been', 'has', 'have', 'had', 'it', 'its', 'this', 'that',
+  'after', 'over', 'into', 'amid', 'new', 'says', 'said', 'will', 'than', 'more', 'up', 'out'
+]);
+
+const tokenize = (text: string): Set<string> => {
+  const tokens = text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(t => t.length > 1 && !STOPWORDS.has(t))
+    // Crude stemming so 'talks'/'talk' and 'elected'/'elect' line up
+    .map(t => t.replace(/(ing|ed|es|s)$/, ''));
+  return new Set(tokens);
+};
+
+/**
+ * Overlap coefficient: shared tokens relative to the smaller set. Works better
+ * than Jaccard for a short headline against a longer rewording of it.
+ */
+const overlap = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(t => { if (b.has(t)) shared++; });
+  return shared / Math.min(a.size, b.size);
+};
+
+interface Fingerprint {
+  title: Set<string>;
+  summary: Set<string>;
+}
+
+const fingerprint = (article: NewsArticle): Fingerprint => ({
+  title: tokenize(article.title),
+  summary: tokenize(article.summary)
+});
+
+// Similarity of two stories from 0 to 1
+const similarity = (a: Fingerprint, b: Fingerprint): number =>
+  overlap(a.title, b.title) * TITLE_WEIGHT + overlap(a.summary, b.summary) * (1 - TITLE_WEIGHT);
+
+const mergeSources = (existing: NewsSource[], incoming: NewsSource[]): NewsSource[] => {
+  const seen = new Set(existing.map(s => s.publisher || s.uri));
+  const merged = [...existing];
+  incoming.forEach(source => {
+    const key = source.publisher || source.uri;
+    if (!seen.has(key)) {
+      seen.add(key);
+      merged.push(source);
+    }
+  });
+  return merged;
+};
+
+export interface DedupeResult {
+  /** The existing list, with sources from any duplicates folded in. */
+  merged: NewsArticle[];
+  /** Incoming articles that are genuinely new. */
+  added: NewsArticle[];
+}
+
+/**
+ * Clusters incoming articles against those already loaded (and each other).
+ * Duplicates are dropped and their sources merged into the surviving article.
+ */
+export const dedupeArticles = (existing: NewsArticle[], incoming: NewsArticle[]): DedupeResult => {
+  const merged = existing.map(a => ({ ...a }));
+  const added: NewsArticle[] = [];
+  const fingerprints = new Map<NewsArticle, Fingerprint>();
+  const getFingerprint = (a: NewsArticle) => {
+    if (!fingerprints.has(a)) fingerprints.set(a, fingerprint(a));
+    return fingerprints.get(a)!;
+  };
+
+  incoming.forEach(candidate => {
+    const fc = getFingerprint(candidate);
+    const match = [...merged, ...added].find(article => similarity(getFingerprint(article), fc) >= DUPLICATE_THRESHOLD);
+
+    if (match) {
+      match.sources = mergeSources(match.sources, candidate.sources);
+    } else {
+      added.push({ ...candidate });
+    }
+  });
+
+  return { merged, added };
+};
@@ -0,0 +1,156 @@
+import { User, UserInterests, Category, SignupData, AgeRange, ProfileChanges } from "../types";
+import { OidcIdentity } from "./oidc";
+
+/**
+ * Account rules shared by the browser store (`localUserService`) and the API
+ * server, so both backends behave the same.
+ */
+
+export const DEFAULT_INTERESTS: UserInterests = {
+  [Category.GLOBAL]: 1.0,
+  [Category.POLITICS]: 1.0,
+  [Category.TECH]: 1.0,
+  [Category.SCIENCE]: 1.0,
+  [Category.CULTURE]: 1.0,
+  [Category.BUSINESS]: 1.0
+};
+
+/** Finds a user by username (case-insensitive) or email. */
+export const findByIdentifier = (users: User[], identifier: string): User | undefined => {
+  return users.find(u => u.username.toLowerCase() === identifier.toLowerCase() || u.email === identifier);
+};
+
+/** Throws if the username or email is already registered. */
+export const assertAvailable = (users: User[], username: string, email: string) => {
+  if (users.some(u => u.username.toLowerCase() === username.toLowerCase())) {
+    throw new Error("Username already taken");
+  }
+  if (users.some(u => u.email === email)) {
+    throw new Error("Email already registered");
+  }
+};
+
+/** A new account. `passwordHash` must already be hashed. */
+export const createUserRecord = (data: SignupData, passwordHash?: string): User => ({
+  id: `user-${Date.now()}`,
+  username: data.username,
+  email: data.email, // In a real app, encrypt PII
+  password: passwordHash,
+  ageRange: data.ageRange,
+  interests: { ...DEFAULT_INTERESTS },
+  readHistory: [],
+  onboardingComplete: false
+});
+
+const hasIdentity = (user: User, identity: OidcIdentity) =>
+  !!user.oidcIdentities?.some(i => i.issuer === identity.issuer && i.subject === identity.subject);
+
+/**
+ * Finds the account an identity provider sign-in belongs to: the one already
+ * linked to that identity, or else the one with the same email, which is
+ * linked now (changing `user`). Returns undefined if a new account is needed.
+ */
+export const linkOidcIdentity = (users: User[], identity: OidcIdentity): User | undefined => {
+  const linked = users.find(u => hasIdentity(u, identity));
+  if (linked) return linked;
+
+  const email = identity.email?.toLowerCase();
+  const sameEmail = email ? users.find(u => u.email?.toLowerCase() === email) : undefined;
+  if (!sameEmail) return undefined;
+  // Anyone can claim an address they haven't verified, so that alone can't unlock an account
+  if (!identity.emailVerified) {
+    throw new Error("An account with this email already exists. Verify the address with your identity provider, or sign in with your password.");
+  }
+  sameEmail.oidcIdentities = [...(sameEmail.oidcIdentities || []), { issuer: identity.issuer, subject: identity.subject }];
+  return sameEmail;
+};
+
+/**
+ * A new account for an identity provider sign-in, with a username based on
+ * the provider's profile that doesn't clash with an existing one.
+ */
+export const createOidcUserRecord = (users: User[], identity: OidcIdentity): User => {
+  const base = (identity.preferredUsername || identity.name || identity.email?.split('@')[0] || 'reader').replace(/\s+/g, '');
+  const taken = new Set(users.map(u => u.username.toLowerCase()));
+  let username = base;
+  for (let n = 2; taken.has(username.toLowerCase()); n++) username = `${base}${n}`;
+
+  return {
+    // Providers don't share age, so this keeps the default the simulated Google sign-in used
+    ...createUserRecord({ username, email: identity.email || '', ageRange: AgeRange.ADULT }),
+    email: identity.email,
+    oidcIdentities: [{ issuer: identity.issuer, subject: identity.subject }]
+  };
+};
+
+export const applyOnboarding = (user: User, selectedCategories: string[]) => {
+  // Boost selected interests
+  selectedCategories.forEach(cat => {
+    user.interests[cat] = 2.0; // Strong start
+  });
+  user.onboardingComplete = true;
+};
+
+export const applyInterestDelta = (user: User, category: string, delta: number) => {
+  user.interests[category] = Math.max(0.1, (user.interests[category] || 1.0) + delta);
+};
+
+/** Puts interests back to where a new account starts, undoing onboarding and likes. */
+export const resetInterests = (user: User) => {
+  user.interests = { ...DEFAULT_INTERESTS };
+};
+
+/** Applies a username and/or email change. Throws if either is blank or belongs to someone else. */
+export const applyProfileChanges = (users: User[], user: User, changes: ProfileChanges) => {
+  const username = changes.username?.trim();
+  const email = changes.email?.trim();
+  if (username === '' || email === '') throw new Error("Username and email can't be blank");
+
+  const others = users.filter(u => u.id !== user.id);
+  if (username && others.some(u => u.username.toLowerCase() === username.toLowerCase())) {
+    throw new Error("Username already taken");
+  }
+  if (email && others.some(u => u.email === email)) {
+    throw new Error("Email already registered");
+  }
+  if (username) user.username = username;
+  if (email) user.email = email;
+};
+
+// Youngest first
+const AGE_RANGE_ORDER = [AgeRange.CHILD, AgeRange.TEEN, AgeRange.ADULT];
+
+/**
+ * Moving to a younger age range only makes content stricter, so it applies
+ * straight away. An older one is recorded as a request for someone to review.
+ * Asking for the current range withdraws a pending request.
+ */
+export const applyAgeRangeRequest = (user: User, ageRange: AgeRange) => {
+  if (AGE_RANGE_ORDER.indexOf(ageRange) <= AGE_RANGE_ORDER.indexOf(user.ageRange)) {
+    user.ageRange = ageRange;
+    delete user.ageRangeRequest;
+  } else {
+    user.ageRangeRequest = { ageRange, requestedAt: new Date().toISOString() };
+  }
+};
+
+/** Returns false if the user has no pending request. */
+export const approveAgeRangeRequest = (user: User): boolean => {
+  if (!user.ageRangeRequest) return false;
+  user.ageRange = user.ageRangeRequest.ageRange;
+  delete user.ageRangeRequest;
+  return true;
+};
+
+/** Works for both stored users and ones sent by the API server. */
+export const hasPassword = (user: User) => !!user.password || !!user.hasPassword;
+
+/** Returns false if the article was already in the user's history. */
+export const addReadArticle = (user: User, articleId: string): boolean => {
+  if (user.readHistory.includes(articleId)) return false;
+  user.readHistory.push(articleId);
+  return true;
+};
+
+/** The user as sent to clients: never includes the password hash. */
+export const withoutPassword = ({ password, ...user }: User): User => ({ ...user, hasPassword: !!password });
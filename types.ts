@@ -17,6 +17,7 @@ export enum AgeRange {
 export interface NewsSource {
   title: string;
   uri: string;
+  publisher?: string; // e.g. 'Reuters', derived from the source domain
 }
 
 export interface NewsArticle {
@@ -30,6 +31,26 @@ export interface NewsArticle {
   timestamp: string;
 }
 
+/** An article's title and summary in another language. */
+export interface ArticleTranslation {
+  title: string;
+  summary: string;
+}
+
+/**
+ * A source of daily briefings. `App` only talks to this interface so the feed
+ * can be backed by Gemini, local fixtures, or anything else.
+ */
+export interface NewsProvider {
+  /** The first page of stories for a given day. Rejects when the request fails. */
+  fetchBriefing: (date: Date, ageRange: AgeRange) => Promise<NewsArticle[]>;
+  /**
+   * Another page of stories for the same day, skipping the given titles.
+   * Rejects when the request fails; an empty page means the day has run out.
+   */
+  fetchMore: (date: Date, ageRange: AgeRange, excludeTitles: string[]) => Promise<NewsArticle[]>;
+}
+
 export interface UserInterests {
   [key: string]: number; // Category -> Weight (default 1.0)
 }
@@ -37,14 +58,41 @@ export interface UserInterests {
 export enum TTSMode {
   READ = 'READ',
   PODCAST = 'PODCAST',
-  STORYTELLER = 'STORYTELLER'
+  STORYTELLER = 'STORYTELLER',
+  EXPLAINER = 'EXPLAINER',
+  DEBATE = 'DEBATE',
+  KIDS = 'KIDS'
+}
+
+/**
+ * One speaker in a TTS mode: the name the script uses and the prebuilt voice.
+ */
+export interface TTSSpeaker {
+  name: string;
+  voice: string;
 }
 
+/** A user's speakers per mode; modes left out use the defaults. */
+export type VoiceSettings = Partial<Record<TTSMode, TTSSpeaker[]>>;
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'model';
   text: string;
   isThinking?: boolean;
+  isStreaming?: boolean;
+  interrupted?: 'stopped' | 'error'; // Set when a streamed answer did not finish
+  sources?: NewsSource[]; // Citations from search grounding (model messages only)
+}
+
+export interface ChatThread {
+  id: string;
+  userId: string;
+  dateKey: string; // YYYY-MM-DD of the briefing being discussed
+  articleId?: string; // Absent for whole-day threads
+  articleTitle?: string;
+  messages: ChatMessage[];
+  updatedAt: string;
 }
 
 export interface AudioState {
@@ -58,12 +106,53 @@ export interface User {
   id: string;
   username: string;
   email?: string; // Encrypted/Stored
-  password?: string; // Hashed
+  password?: string; // PBKDF2 hash, see services/passwordHash.ts
   ageRange: AgeRange;
   interests: UserInterests;
   readHistory: string[];
-  isGoogleAuth?: boolean;
+  isGoogleAuth?: boolean; // Set by the old simulated Google sign-in; see oidcIdentities
+  oidcIdentities?: OidcIdentityLink[]; // Identity provider accounts that can sign in as this user
+  hasPassword?: boolean; // Sent by the API server in place of the hash
+  ageRangeRequest?: AgeRangeRequest; // An older age range the user asked for, awaiting review
   onboardingComplete?: boolean;
+  voiceSettings?: VoiceSettings;
+  preferredLanguage?: string; // Language code, e.g. 'es'; English when unset
+}
+
+export interface AgeRangeRequest {
+  ageRange: AgeRange;
+  requestedAt: string;
+}
+
+export interface OidcIdentityLink {
+  issuer: string;
+  subject: string; // The provider's stable user id (`sub`)
+}
+
+/**
+ * One sign-in on one device. Only a hash of the token is stored, so the
+ * record itself can't be used to sign in.
+ */
+export interface Session {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  device: string; // e.g. "Firefox on Windows"
+  rememberMe: boolean;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string; // Pushed back each time the session is refreshed
+}
+
+/** A session as shown in the sessions list. */
+export interface SessionInfo {
+  id: string;
+  device: string;
+  rememberMe: boolean;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean; // The session making the request
 }
 
 export interface Feedback {
@@ -74,3 +163,64 @@ export interface Feedback {
   value: string | number; // 'up', 'down', text content
   timestamp: string;
 }
+
+export interface SignupData {
+  username: string;
+  email: string;
+  password?: string;
+  ageRange: AgeRange;
+}
+
+export interface ProfileChanges {
+  username?: string;
+  email?: string;
+}
+
+/**
+ * Where accounts and per-user data live. Reads are synchronous; backends that
+ * talk to a server keep a local copy and sync in the background.
+ */
+export interface UserService {
+  /** Restores the signed-in user. Runs once before the app renders. */
+  init: () => Promise<void>;
+  /** Without `rememberMe` the session is short and ends when the tab is closed. */
+  login: (identifier: string, password?: string, rememberMe?: boolean) => Promise<User>;
+  signup: (data: SignupData, rememberMe?: boolean) => Promise<User>;
+  /** Signs in with an ID token from `completeOidcSignIn`, linking or creating the account. */
+  loginWithIdToken: (idToken: string, nonce: string, rememberMe?: boolean) => Promise<User>;
+  logout: () => void;
+  /** Null once the session has expired or been revoked. */
+  getCurrentUser: () => User | null;
+  /** The signed-in user's active sessions, most recently seen first. */
+  getSessions: () => Promise<SessionInfo[]>;
+  /** Signs one of the user's sessions out. Revoking the current one signs out here too. */
+  revokeSession: (sessionId: string) => Promise<void>;
+  revokeOtherSessions: () => Promise<void>;
+  completeOnboarding: (userId: string, selectedCategories: string[]) => User | null;
+  updateInterests: (userId: string, category: string, delta: number) => User | null;
+  updateVoiceSettings: (userId: string, voiceSettings: VoiceSettings) => User | null;
+  updatePreferredLanguage: (userId: string, language: string) => User | null;
+  /** Changes the username and/or email. Throws if either is taken. */
+  updateProfile: (userId: string, changes: ProfileChanges) => Promise<User>;
+  /**
+   * Checks `currentPassword` (skipped for accounts without one, e.g. from
+   * identity provider sign-in), then signs out the user's other sessions.
+   */
+  changePassword: (userId: string, currentPassword: string, newPassword: string) => Promise<void>;
+  /** A younger age range applies straight away; an older one waits for review. */
+  requestAgeRangeChange: (userId: string, ageRange: AgeRange) => Promise<User>;
+  resetInterests: (userId: string) => User | null;
+  /** Deletes the account with its feedback, briefings, history and sessions, and signs out. */
+  deleteAccount: (userId: string, password: string) => Promise<void>;
+  addToHistory: (userId: string, articleId: string) => void;
+  submitFeedback: (feedback: Omit<Feedback, 'id' | 'timestamp'>) => Promise<boolean>;
+  getDailyBriefing: (userId: string, dateStr: string) => NewsArticle[] | null;
+  saveDailyBriefing: (userId: string, dateStr: string, articles: NewsArticle[]) => void;
+  clearCachedBriefings: () => void;
+  getTranslations: (language: string, articleIds: string[]) => Record<string, ArticleTranslation>;
+  saveTranslations: (language: string, byArticleId: Record<string, ArticleTranslation>) => void;
+  getChatThreadId: (userId: string, dateStr: string, articleId?: string) => string;
+  getChatThread: (threadId: string) => ChatThread | null;
+  getChatThreads: (userId: string) => ChatThread[];
+  saveChatThread: (thread: Omit<ChatThread, 'updatedAt'>) => ChatThread;
+}
@@ -4,6 +4,8 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // With a Gemini proxy the key stays on the server and out of the bundle
+    const geminiApiKey = env.GEMINI_PROXY_URL ? undefined : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
@@ -11,8 +13,18 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(geminiApiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(geminiApiKey),
+        'process.env.GEMINI_PROXY_URL': JSON.stringify(env.GEMINI_PROXY_URL),
+        'process.env.NEWS_PROVIDER': JSON.stringify(env.NEWS_PROVIDER),
+        'process.env.PBKDF2_ITERATIONS': JSON.stringify(env.PBKDF2_ITERATIONS),
+        'process.env.STORAGE_BACKEND': JSON.stringify(env.STORAGE_BACKEND),
+        'process.env.USER_BACKEND': JSON.stringify(env.USER_BACKEND),
+        'process.env.API_URL': JSON.stringify(env.API_URL),
+        'process.env.OIDC_ISSUER': JSON.stringify(env.OIDC_ISSUER),
+        'process.env.OIDC_CLIENT_ID': JSON.stringify(env.OIDC_CLIENT_ID),
+        'process.env.OIDC_PROVIDER_NAME': JSON.stringify(env.OIDC_PROVIDER_NAME),
+        'process.env.OIDC_REDIRECT_URI': JSON.stringify(env.OIDC_REDIRECT_URI)
       },
       resolve: {
         alias: {